@@ -0,0 +1,81 @@
+// api/backfill.ts
+import { config } from 'dotenv';
+config({ path: '.env.local' }); // or '.env'
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { runBackfill } from '../lib/backfill.js';
+import { loadSyncPairs, selectPairs } from '../lib/pairs.js';
+import { getStateStore } from '../lib/state.js';
+import { getHttpStats, resetHttpStats, setHttpDeadline } from '../lib/http.js';
+import { runDeadline } from '../lib/pipeline.js';
+
+// --- helpers ---
+function getQP(q: Record<string, string | string[] | undefined>, key: string) {
+  const v = q[key];
+  return Array.isArray(v) ? v[0] : v;
+}
+function toBool(s?: string) {
+  if (!s) return false;
+  return ['1', 'true', 'yes', 'on'].includes(s.toLowerCase());
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Allow POST (Notion button) or GET (cron/manual)
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({ ok: false, error: 'method not allowed' });
+  }
+
+  // Vercel cron requests include this header
+  const isCron = req.headers['x-vercel-cron'] === '1';
+
+  // Require token only for POSTs that are NOT cron
+  const requireToken = req.method === 'POST' && !isCron;
+
+  if (requireToken && process.env.TRIGGER_TOKEN) {
+    const headerToken = req.headers['x-webhook-token'] as string | undefined;
+    const queryToken =
+      typeof req.query.token === 'string' ? req.query.token : undefined;
+    const token = headerToken ?? queryToken;
+    if (token !== process.env.TRIGGER_TOKEN) {
+      return res.status(401).json({ ok: false, error: 'unauthorized' });
+    }
+  }
+  try {
+    resetHttpStats();
+    const deadline = runDeadline(Date.now());
+    setHttpDeadline(deadline);
+    const dryRun = toBool(getQP(req.query, 'dryRun'));
+    const reset = toBool(getQP(req.query, 'reset'));
+
+    const store = getStateStore();
+    if (store.kind === 'none' && !dryRun) {
+      throw new Error('Backfill needs a state store for its checkpoints (set KV_REST_API_URL or STATE_STORE)');
+    }
+
+    // Each pair resumes from its own checkpoint; finished pairs are cheap no-ops
+    const pairs = selectPairs(loadSyncPairs(), getQP(req.query, 'pair'));
+    const results: any[] = [];
+    for (const pair of pairs) {
+      if (Date.now() >= deadline) {
+        results.push({ ok: true, pair: pair.name, deferred: 'time-budget' });
+        continue;
+      }
+      try {
+        results.push({ ok: true, ...(await runBackfill(pair, { store, deadline, dryRun, reset })) });
+      } catch (e: any) {
+        results.push({ ok: false, pair: pair.name, error: e?.message || 'Error' });
+      }
+    }
+
+    const failed = results.filter((r) => !r.ok).length;
+    res.status(failed && failed === results.length ? 500 : 200).json({
+      ok: failed === 0,
+      dryRun,
+      done: results.every((r) => r.done),
+      http: getHttpStats(),
+      pairs: results
+    });
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message || 'Error' });
+  }
+}
@@ -0,0 +1,41 @@
+// api/doctor.ts
+import { config } from 'dotenv';
+config({ path: '.env.local' }); // or '.env'
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { runDoctor } from '../lib/diagnostics.js';
+
+// --- helpers ---
+function getQP(q: Record<string, string | string[] | undefined>, key: string) {
+  const v = q[key];
+  return Array.isArray(v) ? v[0] : v;
+}
+function toBool(s?: string) {
+  if (!s) return false;
+  return ['1', 'true', 'yes', 'on'].includes(s.toLowerCase());
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({ ok: false, error: 'method not allowed' });
+  }
+
+  // ?fix=1 changes the database schema, so it always needs the token (when set)
+  const fix = toBool(getQP(req.query, 'fix'));
+  if ((fix || req.method === 'POST') && process.env.TRIGGER_TOKEN) {
+    const headerToken = req.headers['x-webhook-token'] as string | undefined;
+    const queryToken =
+      typeof req.query.token === 'string' ? req.query.token : undefined;
+    const token = headerToken ?? queryToken;
+    if (token !== process.env.TRIGGER_TOKEN) {
+      return res.status(401).json({ ok: false, error: 'unauthorized' });
+    }
+  }
+  try {
+    // ?pair=a,b only checks the databases those pairs write to
+    const report = await runDoctor({ pair: getQP(req.query, 'pair'), fix });
+    res.status(200).json(report);
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message || 'Error' });
+  }
+}
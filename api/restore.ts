@@ -0,0 +1,50 @@
+// api/restore.ts
+import { config } from 'dotenv';
+config({ path: '.env.local' }); // or '.env'
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { runRestore, listRestorableRuns } from '../lib/restore.js';
+
+// --- helpers ---
+function getQP(q: Record<string, string | string[] | undefined>, key: string) {
+  const v = q[key];
+  return Array.isArray(v) ? v[0] : v;
+}
+function toBool(s?: string) {
+  if (!s) return false;
+  return ['1', 'true', 'yes', 'on'].includes(s.toLowerCase());
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({ ok: false, error: 'method not allowed' });
+  }
+
+  const runId = getQP(req.query, 'run');
+  const idsParam = getQP(req.query, 'ids');
+  const raindropIds = idsParam ? idsParam.split(',').map((s) => Number(s.trim())) : undefined;
+  if (raindropIds?.some((n) => !Number.isInteger(n) || n <= 0)) {
+    return res.status(400).json({ ok: false, error: 'ids must be comma-separated raindrop IDs' });
+  }
+
+  // anything but the plain run list writes to Notion, so it needs the token (when set)
+  if ((runId || raindropIds) && process.env.TRIGGER_TOKEN) {
+    const headerToken = req.headers['x-webhook-token'] as string | undefined;
+    const queryToken =
+      typeof req.query.token === 'string' ? req.query.token : undefined;
+    const token = headerToken ?? queryToken;
+    if (token !== process.env.TRIGGER_TOKEN) {
+      return res.status(401).json({ ok: false, error: 'unauthorized' });
+    }
+  }
+  try {
+    // no ?run= or ?ids=: list the runs that can be undone
+    if (!runId && !raindropIds) {
+      return res.status(200).json({ ok: true, runs: await listRestorableRuns() });
+    }
+    const report = await runRestore({ runId, raindropIds, dryRun: toBool(getQP(req.query, 'dryRun')) });
+    res.status(report.ok ? 200 : 500).json(report);
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message || 'Error' });
+  }
+}
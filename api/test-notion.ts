@@ -1,25 +1,21 @@
 // api/test-notion.ts
 import 'dotenv/config';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { Client } from '@notionhq/client';
+import { checkNotionDatabase } from '../lib/diagnostics.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
-    const token = process.env.NOTION_API_TOKEN;
     const dbId  = process.env.NOTION_DATABASE_ID;
-    if (!token) throw new Error('Missing NOTION_API_TOKEN');
+    if (!process.env.NOTION_API_TOKEN) throw new Error('Missing NOTION_API_TOKEN');
     if (!dbId) throw new Error('Missing NOTION_DATABASE_ID');
 
-    const notion = new Client({ auth: token });
-    const db: any = await notion.databases.retrieve({ database_id: dbId });
-
-    const title =
-      Array.isArray(db?.title) && db.title.length ? db.title[0]?.plain_text ?? null : null;
+    const result = await checkNotionDatabase(dbId);
+    if (!result.ok) throw new Error(result.detail);
 
     res.status(200).json({
       ok: true,
-      databaseId: db?.id ?? dbId,
-      title
+      databaseId: dbId,
+      title: result.title ?? null
     });
   } catch (e: any) {
     res.status(500).json({ ok: false, error: e?.message || 'error' });
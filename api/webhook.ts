@@ -0,0 +1,157 @@
+// api/webhook.ts
+import { config } from 'dotenv';
+config({ path: '.env.local' }); // or '.env'
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { fetchRaindropDetail } from '../lib/raindrop.js';
+import { getPagesByRaindropIds, markDeleteDetected } from '../lib/notion.js';
+import { planUpserts, executeUpserts } from '../lib/upsert.js';
+import { loadSyncPairs, groupPairsByDatabase, ALL_COLLECTIONS } from '../lib/pairs.js';
+import { getStateStore } from '../lib/state.js';
+import { readMapped } from '../lib/mapping.js';
+import { newRunId, saveJournal, journalEntry, type RestoreAction } from '../lib/restore.js';
+import {
+  verifySignature,
+  parseWebhookEvent,
+  checkAndRememberDelivery
+} from '../lib/webhook.js';
+
+function envInt(name: string, def: number) {
+  const v = process.env[name];
+  const n = v ? parseInt(v, 10) : NaN;
+  return Number.isFinite(n) ? n : def;
+}
+
+// The signature covers the exact bytes sent, so read the body unparsed.
+// Falls back to what the runtime already buffered/parsed.
+async function readRawBody(req: VercelRequest): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  if (chunks.length) return Buffer.concat(chunks).toString('utf8');
+
+  const body = (req as any).body;
+  if (typeof body === 'string') return body;
+  if (Buffer.isBuffer(body)) return body.toString('utf8');
+  return body ? JSON.stringify(body) : '';
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ ok: false, error: 'method not allowed' });
+  }
+
+  const secret = process.env.WEBHOOK_SECRET;
+  if (!secret) {
+    return res.status(503).json({ ok: false, error: 'webhook disabled (WEBHOOK_SECRET not set)' });
+  }
+
+  try {
+    const rawBody = await readRawBody(req);
+    const timestamp = req.headers['x-webhook-timestamp'] as string | undefined;
+    const signature = req.headers['x-webhook-signature'] as string | undefined;
+    const toleranceSec = envInt('WEBHOOK_TOLERANCE_SECONDS', 300);
+
+    const verified = verifySignature(secret, timestamp, signature, rawBody, toleranceSec);
+    if (!verified.ok) {
+      return res.status(401).json({ ok: false, error: verified.reason });
+    }
+    if (!(await checkAndRememberDelivery(getStateStore(), signature!, toleranceSec))) {
+      return res.status(409).json({ ok: false, error: 'replayed delivery' });
+    }
+
+    let event;
+    try {
+      event = parseWebhookEvent(JSON.parse(rawBody));
+    } catch (e: any) {
+      return res.status(400).json({ ok: false, error: e?.message || 'bad payload' });
+    }
+
+    // Always look at the live item: the payload only names it.
+    const detail = await fetchRaindropDetail(event.raindropId);
+    const gone = !detail.exists || !!detail.removed || !detail.item;
+    const pairs = loadSyncPairs();
+
+    // A created/updated event for an item we can't see is not proof of deletion;
+    // leave that to reconcile.
+    if (gone && event.action !== 'removed' && !detail.removed) {
+      return res.status(200).json({ ok: true, event, result: 'not-found' });
+    }
+
+    // ---- removed ----
+    if (gone) {
+      const startedAt = new Date();
+      const flagged: { pair: string; pageId: string }[] = [];
+      const alreadyFlagged: { pair: string; pageId: string }[] = [];
+      const journal: RestoreAction[] = [];
+      for (const group of groupPairsByDatabase(pairs).values()) {
+        const owner = group[0];
+        const found = (await getPagesByRaindropIds(owner, [event.raindropId])).get(event.raindropId);
+        if (!found) continue;
+        const m = owner.mapping;
+        const deleted = !!readMapped(found.properties, m, 'deleted');
+        const deleteDetectedAt = readMapped(found.properties, m, 'deleteDetectedAt');
+        // flagging again would restart the grace period
+        if (deleted && deleteDetectedAt) {
+          alreadyFlagged.push({ pair: owner.name, pageId: found.pageId });
+          continue;
+        }
+        // same as reconcile's first detection (and journaled the same way, so
+        // `restore` undoes it); archiving waits for the grace period
+        await markDeleteDetected(owner, found.pageId, new Date().toISOString(), !found.locked, found.lockedFields);
+        journal.push(
+          journalEntry('flagged', owner.databaseId, { ...found, raindropId: event.raindropId }, {
+            deleted,
+            deleteDetectedAt,
+            ...(!found.locked ? { status: readMapped(found.properties, m, 'status') } : {})
+          })
+        );
+        flagged.push({ pair: owner.name, pageId: found.pageId });
+      }
+
+      let restore: { runId: string; actions: number } | undefined;
+      let restoreError: string | undefined;
+      if (journal.length) {
+        const runId = newRunId(startedAt);
+        const saved = await saveJournal({ runId, startedAt: startedAt.toISOString(), actions: journal }).catch(
+          (e: any) => {
+            restoreError = e?.message || 'Error';
+            return false;
+          }
+        );
+        if (saved) restore = { runId, actions: journal.length };
+        else restoreError ??= 'STATE_STORE is none, so this flag was not journaled and cannot be restored';
+      }
+      return res.status(200).json({ ok: true, event, result: 'delete-detected', flagged, alreadyFlagged, restore, restoreError });
+    }
+
+    // ---- created / updated: upsert into every pair that covers its collection ----
+    const item = detail.item!;
+    const collId = String(detail.collectionId ?? item.collection?.$id ?? '');
+    const targets = pairs.filter((p) => p.collectionId === collId || p.collectionId === ALL_COLLECTIONS);
+
+    const results: any[] = [];
+    for (const pair of targets) {
+      const plan = await planUpserts(pair, [item]);
+      const writes = await executeUpserts(pair, plan.tasks, {});
+      results.push({
+        pair: pair.name,
+        created: writes.createdIds.length,
+        updated: writes.updatedIds.length,
+        changedFields: writes.changes[0]?.fields ?? [],
+        skippedLocked: plan.skippedLocked.length,
+        upToDate: writes.unchangedIds.length > 0 || (plan.tasks.length === 0 && plan.skippedLocked.length === 0),
+        failed: writes.failed
+      });
+    }
+
+    const anyFailed = results.some((r) => r.failed.length);
+    res.status(anyFailed ? 500 : 200).json({
+      ok: !anyFailed,
+      event,
+      result: targets.length ? 'upserted' : 'no-matching-pair',
+      pairs: results
+    });
+  } catch (e: any) {
+    res.status(500).json({ ok: false, error: e?.message || 'Error' });
+  }
+}
@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI directly through tsx; there is no separate build step.
+import { register } from 'tsx/esm/api';
+
+register();
+await import('../cli/index.ts');
@@ -0,0 +1,6 @@
+// cli/env.ts
+// Imported first by the CLI: lib modules read some env vars at import time,
+// so .env files must be loaded before any of them is evaluated.
+import { config } from 'dotenv';
+config({ path: '.env.local', quiet: true });
+config({ path: '.env', quiet: true });
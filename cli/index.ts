@@ -0,0 +1,386 @@
+// cli/index.ts
+// `raindrop-notion <command> [options]` — the same work the api/ handlers do,
+// without Vercel: no time budget, .env loaded from the working directory.
+import './env.js';
+
+import { runSync } from '../lib/sync.js';
+import { runReconcile } from '../lib/reconcile.js';
+import { runBackfill } from '../lib/backfill.js';
+import { runDoctor, inspectRaindrop } from '../lib/diagnostics.js';
+import { syncCollections } from '../lib/collections.js';
+import { runRestore, listRestorableRuns } from '../lib/restore.js';
+import { recordRun, summarizeRun, type RunKind } from '../lib/runlog.js';
+import { notifyRun } from '../lib/notify.js';
+import { loadSyncPairs, selectPairs } from '../lib/pairs.js';
+import { getStateStore } from '../lib/state.js';
+import type { HttpStats } from '../lib/http.js';
+
+const USAGE = `Usage: raindrop-notion <command> [options]
+
+Commands:
+  sync                 incremental sync (reverse pass, passes A/B, upserts)
+  reconcile            detect moved / deleted raindrops
+  backfill             resumable oldest-first import
+  collections          mirror Raindrop collections into the Collections database(s)
+  doctor               check Raindrop, Notion, the database schema and the state store
+  inspect <raindropId> show one raindrop, its Notion row(s) and what sync would do
+  restore [runId]      undo a reconcile run's flags, archives and moves (no args: list runs)
+
+Options:
+  --pair a,b           only these sync pairs
+  --dry-run            plan only, write nothing
+  --limit N            sync: cap writes per pair
+  --full               sync: ignore the saved cursor, use the lookback window
+  --reset              backfill: start over from the first page
+  --fix                doctor: create missing Notion properties and select options
+  --force              reconcile: delete past the safety brake's count / ratio limits
+  --log FILE           sync/reconcile: append the run record to a JSONL file (default SYNC_LOG_FILE)
+  --ids a,b            restore: only these raindrop IDs (without a runId: across every journaled run)
+  --json               print the raw JSON report instead of tables`;
+
+// ------- args -------
+type Args = { command?: string; positional: string[]; flags: Map<string, string | true> };
+
+const VALUE_FLAGS = new Set(['--pair', '--limit', '--log', '--ids']);
+
+function parseArgs(argv: string[]): Args {
+  const out: Args = { positional: [], flags: new Map() };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a.startsWith('--')) {
+      const [name, inline] = a.split('=', 2);
+      if (inline !== undefined) out.flags.set(name, inline);
+      else if (VALUE_FLAGS.has(name)) {
+        if (argv[i + 1] === undefined) throw new Error(`${name} needs a value`);
+        out.flags.set(name, argv[++i]);
+      } else out.flags.set(name, true);
+    } else if (!out.command) out.command = a;
+    else out.positional.push(a);
+  }
+  return out;
+}
+
+function flagStr(args: Args, name: string) {
+  const v = args.flags.get(name);
+  return typeof v === 'string' ? v : undefined;
+}
+
+function flagInt(args: Args, name: string) {
+  const v = flagStr(args, name);
+  if (v === undefined) return undefined;
+  const n = parseInt(v, 10);
+  if (!Number.isFinite(n) || n < 0) throw new Error(`${name} must be a non-negative integer`);
+  return n;
+}
+
+// ------- output -------
+function printTable(rows: Record<string, unknown>[], columns: string[]) {
+  const cell = (v: unknown) => (v === undefined || v === null ? '' : String(v));
+  const widths = columns.map((c) => Math.max(c.length, ...rows.map((r) => cell(r[c]).length)));
+  const line = (vals: string[]) => vals.map((v, i) => v.padEnd(widths[i])).join('  ').trimEnd();
+  console.log(line(columns));
+  console.log(line(widths.map((w) => '-'.repeat(w))));
+  for (const r of rows) console.log(line(columns.map((c) => cell(r[c]))));
+}
+
+function printHttp(http: HttpStats) {
+  const parts = (['raindrop', 'notion'] as const).map(
+    (svc) =>
+      `${svc} ${http.requests[svc]} req, ${http.retries[svc]} retries,` +
+      ` ${Math.round(http.throttledMs[svc] / 1000)}s throttled`
+  );
+  console.log(`\nhttp: ${parts.join(' · ')}`);
+}
+
+// ------- run log -------
+// Record the run (Notion Sync Log and/or JSONL), including runs that threw
+async function logged<T extends { ok: boolean; dryRun: boolean }>(
+  kind: RunKind,
+  args: Args,
+  run: () => Promise<T>
+): Promise<T & { log?: Awaited<ReturnType<typeof recordRun>> }> {
+  const startedAt = new Date();
+  const file = flagStr(args, '--log');
+  try {
+    const report = await run();
+    const record = summarizeRun(kind, report, { trigger: 'cli', startedAt });
+    const log = await recordRun(record, { file });
+    await notifyRun(record, { logPageId: log?.notionPageId }).catch(() => undefined);
+    return { ...report, log };
+  } catch (e: any) {
+    const error = e instanceof Error ? e : new Error(String(e));
+    const dryRun = args.flags.has('--dry-run');
+    const record = summarizeRun(kind, error, { trigger: 'cli', startedAt, dryRun });
+    const log = await recordRun(record, { file });
+    await notifyRun(record, { logPageId: log?.notionPageId }).catch(() => undefined);
+    throw e;
+  }
+}
+
+function printLog(log?: Awaited<ReturnType<typeof recordRun>>) {
+  if (!log) return;
+  const where = [log.notionPageId && `notion page ${log.notionPageId}`, log.file].filter(Boolean).join(', ');
+  if (where) console.log(`logged: ${where}`);
+  for (const err of log.errors ?? []) console.log(`log failed: ${err}`);
+}
+
+// ------- commands -------
+async function cmdSync(args: Args, json: boolean) {
+  const report = await logged('sync', args, () =>
+    runSync({
+      pair: flagStr(args, '--pair'),
+      limit: flagInt(args, '--limit') ?? 0,
+      dryRun: args.flags.has('--dry-run'),
+      ignoreCursor: args.flags.has('--full')
+    })
+  );
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+    return report.ok;
+  }
+
+  printTable(
+    report.pairs.map((p: any) => ({
+      pair: p.pair,
+      status: !p.ok ? 'error' : p.deferred ? 'deferred' : report.dryRun ? 'dry-run' : 'ok',
+      since: p.window?.sinceDate,
+      candidates: p.unionCandidates,
+      created: p.created,
+      updated: p.updated,
+      unchanged: p.unchanged,
+      failed: p.failed?.length,
+      locked: p.skippedLocked?.length,
+      cursor: p.cursor ? (p.cursor.advanced ? 'advanced' : p.cursor.truncated ? 'truncated' : 'kept') : undefined,
+      error: p.error
+    })),
+    ['pair', 'status', 'since', 'candidates', 'created', 'updated', 'unchanged', 'failed', 'locked', 'cursor', 'error']
+  );
+  printHttp(report.http);
+  printLog(report.log);
+  return report.ok;
+}
+
+async function cmdReconcile(args: Args, json: boolean) {
+  const report = await logged('reconcile', args, () =>
+    runReconcile({ pair: flagStr(args, '--pair'), dryRun: args.flags.has('--dry-run'), force: args.flags.has('--force') })
+  );
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+    return report.ok;
+  }
+
+  printTable(
+    report.databases.map((d: any) => ({
+      database: d.notionDatabaseId,
+      status: !d.ok ? 'error' : d.brake?.tripped ? 'braked' : report.dryRun ? 'dry-run' : 'ok',
+      rows: d.totals?.notionRows,
+      raindrops: d.totals?.raindropIds,
+      moved: d.results?.moved.length,
+      deleteDetected: d.results?.deleteDetected.length,
+      archived: d.results?.deleteArchivedNow.length,
+      cleared: d.results?.clearedFlags.length,
+      locked: d.results?.skippedLocked.length,
+      withheld: d.results?.deleteWithheld.length,
+      unknown: d.results?.unknown.length,
+      duplicates: d.duplicates?.groups?.length,
+      error: d.error ?? d.duplicates?.error
+    })),
+    [
+      'database', 'status', 'rows', 'raindrops', 'moved', 'deleteDetected', 'archived',
+      'cleared', 'locked', 'withheld', 'unknown', 'duplicates', 'error'
+    ]
+  );
+  for (const d of report.databases) {
+    if (d.brake?.tripped) console.log(`safety brake (${d.notionDatabaseId}): ${d.brake.reasons.join('; ')}`);
+  }
+  if (report.restore) console.log(`undo with: raindrop-notion restore ${report.restore.runId}`);
+  if (report.restoreError) console.log(`WARNING: restore journal not saved: ${report.restoreError}`);
+  printHttp(report.http);
+  printLog(report.log);
+  return report.ok;
+}
+
+async function cmdBackfill(args: Args, json: boolean) {
+  const dryRun = args.flags.has('--dry-run');
+  const reset = args.flags.has('--reset');
+  const store = getStateStore();
+  // without a store every call would start over from page 0 and never finish
+  if (store.kind === 'none' && !dryRun) {
+    throw new Error('Backfill needs a state store for its checkpoints (set STATE_STORE=file or KV_REST_API_URL)');
+  }
+  const pairs = selectPairs(loadSyncPairs(), flagStr(args, '--pair'));
+
+  const summaries: any[] = [];
+  for (const pair of pairs) {
+    let first = true;
+    while (true) {
+      // one page per call so progress prints as we go; checkpoints survive Ctrl-C
+      const summary = await runBackfill(pair, { store, dryRun, reset: reset && first, maxBatches: 1 });
+      first = false;
+
+      if (!json) {
+        const p = summary.progress;
+        const eta = p.etaSeconds !== undefined ? `${Math.ceil(p.etaSeconds / 60)} min` : '?';
+        console.log(
+          `[${pair.name}] processed ${p.processed}/${p.total ?? '?'}` +
+            ` (${p.percent ?? '?'}%) · remaining ${p.remaining ?? '?'} · eta ${eta}` +
+            ` · +${summary.thisRun.created} created, ~${summary.thisRun.updated} updated, =${summary.thisRun.unchanged} unchanged, !${summary.thisRun.failed} failed` +
+            (summary.checkpoint.retry.length ? ` · ${summary.checkpoint.retry.length} to retry` : '')
+        );
+        if (dryRun) console.log(JSON.stringify({ toCreate: summary.toCreatePreview, toUpdate: summary.toUpdatePreview }));
+      }
+      if (dryRun || summary.done) {
+        summaries.push(summary);
+        break;
+      }
+    }
+  }
+  if (json) console.log(JSON.stringify({ ok: true, dryRun, pairs: summaries }, null, 2));
+  return true;
+}
+
+async function cmdCollections(args: Args, json: boolean) {
+  const dryRun = args.flags.has('--dry-run');
+  const pairs = selectPairs(loadSyncPairs(), flagStr(args, '--pair'));
+  const databases = [...new Set(pairs.map((p) => p.collectionsDatabaseId).filter(Boolean) as string[])];
+  if (!databases.length) throw new Error('no selected pair maps Collection as a relation');
+
+  const reports = [];
+  for (const databaseId of databases) reports.push(await syncCollections(databaseId, { dryRun }));
+  if (json) {
+    console.log(JSON.stringify({ ok: true, dryRun, databases: reports }, null, 2));
+    return true;
+  }
+
+  printTable(
+    reports.map((r) => ({
+      database: r.notionDatabaseId,
+      status: dryRun ? 'dry-run' : 'ok',
+      collections: r.total,
+      created: r.created.length,
+      updated: r.updated.length,
+      unchanged: r.unchanged,
+      missingInRaindrop: r.missingInRaindrop.length
+    })),
+    ['database', 'status', 'collections', 'created', 'updated', 'unchanged', 'missingInRaindrop']
+  );
+  return true;
+}
+
+async function cmdRestore(args: Args, json: boolean) {
+  const runId = args.positional[0];
+  const idsFlag = flagStr(args, '--ids');
+  const raindropIds = idsFlag?.split(',').map((s) => Number(s.trim()));
+  if (raindropIds?.some((n) => !Number.isInteger(n) || n <= 0)) {
+    throw new Error('--ids must be comma-separated raindrop IDs');
+  }
+
+  if (!runId && !raindropIds) {
+    const runs = await listRestorableRuns();
+    if (json) console.log(JSON.stringify({ ok: true, runs }, null, 2));
+    else if (!runs.length) console.log('no reconcile runs to restore');
+    else printTable(runs, ['runId', 'startedAt', 'actions']);
+    return true;
+  }
+
+  const report = await runRestore({ runId, raindropIds, dryRun: args.flags.has('--dry-run') });
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+    return report.ok;
+  }
+
+  printTable(
+    [
+      ...report.restored.map((r) => ({
+        ...r,
+        status: report.dryRun ? 'dry-run' : 'restored',
+        actions: r.actions.join(', '),
+        fields: r.fields.join(', ')
+      })),
+      ...report.failed.map((f) => ({ ...f, status: 'error' }))
+    ],
+    ['raindropId', 'pageId', 'status', 'actions', 'fields', 'error']
+  );
+  if (report.notFound.length) console.log(`\nnothing to restore for: ${report.notFound.join(', ')}`);
+  return report.ok;
+}
+
+async function cmdDoctor(args: Args, json: boolean) {
+  const report = await runDoctor({ pair: flagStr(args, '--pair'), fix: args.flags.has('--fix') });
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+    return report.ok;
+  }
+
+  printTable(
+    report.checks.map((c) => ({ check: c.check, ok: c.ok ? 'ok' : 'FAIL', detail: c.detail })),
+    ['check', 'ok', 'detail']
+  );
+  const issues = report.schemas.flatMap((s) =>
+    s.issues.map((i) => ({
+      database: s.notionDatabaseId,
+      property: i.property,
+      problem: i.problem,
+      expected: i.expected,
+      actual: i.actual,
+      fix: i.fixed ? 'fixed' : i.fixable ? 'with --fix' : 'manual'
+    }))
+  );
+  if (issues.length) {
+    console.log('');
+    printTable(issues, ['database', 'property', 'problem', 'expected', 'actual', 'fix']);
+  }
+  return report.ok;
+}
+
+async function cmdInspect(args: Args, json: boolean) {
+  const id = Number(args.positional[0]);
+  if (!Number.isInteger(id) || id <= 0) throw new Error('inspect needs a numeric raindropId');
+
+  const report = await inspectRaindrop(id, { pair: flagStr(args, '--pair') });
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+    return true;
+  }
+
+  const r = report.raindrop;
+  console.log(
+    r
+      ? `raindrop ${id}: ${r.title ?? ''}\n  ${r.link ?? ''}\n  collection ${r.collectionId ?? '?'}` +
+          ` · lastUpdate ${r.lastUpdate ?? '?'}${r.removed ? ' · REMOVED' : ''}`
+      : `raindrop ${id}: not found in Raindrop`
+  );
+  console.log('');
+  if (!report.notion.length) console.log('no pair routes this raindrop and no Notion row holds it');
+  else
+    printTable(report.notion, ['pair', 'routed', 'pageId', 'raindropLastUpdate', 'locked', 'conflict', 'nextSync']);
+  return true;
+}
+
+const COMMANDS: Record<string, (args: Args, json: boolean) => Promise<boolean>> = {
+  sync: cmdSync,
+  reconcile: cmdReconcile,
+  backfill: cmdBackfill,
+  collections: cmdCollections,
+  doctor: cmdDoctor,
+  inspect: cmdInspect,
+  restore: cmdRestore
+};
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.command || args.flags.has('--help') || args.command === 'help') {
+    console.log(USAGE);
+    return;
+  }
+  const run = COMMANDS[args.command];
+  if (!run) throw new Error(`unknown command "${args.command}"\n\n${USAGE}`);
+
+  const ok = await run(args, args.flags.has('--json'));
+  if (!ok) process.exitCode = 1;
+}
+
+main().catch((e) => {
+  console.error(e?.message || e);
+  process.exit(1);
+});
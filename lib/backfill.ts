@@ -0,0 +1,262 @@
+// lib/backfill.ts
+// Full historical import: walk a collection oldest-first, upsert every item and
+// checkpoint after each page so many short invocations add up to one import.
+import { fetchRaindropsPage, fetchRaindropDetail, getCollectionTitleById, type RaindropItem } from './raindrop.js';
+import { planUpserts, executeUpserts } from './upsert.js';
+import { ALL_COLLECTIONS, type SyncPair } from './pairs.js';
+import type { StateStore } from './state.js';
+
+export type BackfillCheckpoint = {
+  page: number;             // next page to fetch (oldest-first)
+  lastId?: number;          // last item fully handled
+  lastCreated?: string;
+  total?: number;           // collection size when last seen
+  processed: number;
+  created: number;
+  updated: number;
+  failedIds: number[];      // kept short; see FAILED_IDS_KEPT
+  retry: { id: number; attempts: number }[];   // failed on a page we moved past
+  elapsedMs: number;        // time spent working, across invocations
+  startedAt: string;
+  updatedAt: string;
+  done: boolean;
+};
+
+export type BackfillSummary = {
+  pair: string;
+  dryRun: boolean;
+  done: boolean;
+  stoppedEarly: boolean;
+  batches: number;
+  thisRun: { processed: number; created: number; updated: number; unchanged: number; failed: number; retried: number };
+  progress: {
+    processed: number;
+    total?: number;
+    remaining?: number;
+    percent?: number;
+    etaSeconds?: number;
+  };
+  checkpoint: BackfillCheckpoint;
+  toCreatePreview?: number[];
+  toUpdatePreview?: number[];
+};
+
+const FAILED_IDS_KEPT = 100;
+const RETRY_ATTEMPTS = 3;
+const checkpointKey = (pairName: string) => `backfill:${pairName}`;
+
+function freshCheckpoint(): BackfillCheckpoint {
+  const now = new Date().toISOString();
+  return {
+    page: 0,
+    processed: 0,
+    created: 0,
+    updated: 0,
+    failedIds: [],
+    retry: [],
+    elapsedMs: 0,
+    startedAt: now,
+    updatedAt: now,
+    done: false
+  };
+}
+
+// (created, _id) ordering, matching Raindrop's oldest-first sort
+function isAfter(item: RaindropItem, cp: BackfillCheckpoint) {
+  if (!cp.lastCreated) return true;
+  if (item.created !== cp.lastCreated) return item.created > cp.lastCreated;
+  return item._id > (cp.lastId ?? -Infinity);
+}
+
+type PageFetch = { items: RaindropItem[]; count?: number };
+
+/**
+ * Deletions shift later items onto earlier pages, so the page after the last
+ * processed one may start past items we haven't seen. Walk back until the page
+ * before ends at or before the last processed (created, _id).
+ */
+async function reanchor(fetchPage: (page: number) => Promise<PageFetch>, page: number, got: PageFetch, cp: BackfillCheckpoint) {
+  while (page > 0) {
+    const prev = await fetchPage(page - 1);
+    const last = prev.items[prev.items.length - 1];
+    if (last && !isAfter(last, cp)) break;
+    page--;
+    got = prev;
+  }
+  return { page, ...got };
+}
+
+export async function getBackfillCheckpoint(store: StateStore, pairName: string) {
+  return store.get<BackfillCheckpoint>(checkpointKey(pairName));
+}
+export async function resetBackfillCheckpoint(store: StateStore, pairName: string) {
+  await store.delete(checkpointKey(pairName));
+}
+
+/**
+ * Process pages until the collection is exhausted, `deadline` passes or
+ * `maxBatches` pages are done. A dry run plans a single page and saves nothing.
+ */
+export async function runBackfill(
+  pair: SyncPair,
+  opts: { store: StateStore; deadline?: number; dryRun?: boolean; reset?: boolean; maxBatches?: number }
+): Promise<BackfillSummary> {
+  const { store, deadline, dryRun = false } = opts;
+  const perPage = parseInt(process.env.BACKFILL_PER_PAGE || '', 10) || 50;
+  const maxBatches = dryRun ? 1 : opts.maxBatches ?? Infinity;
+
+  if (opts.reset && !dryRun) await resetBackfillCheckpoint(store, pair.name);
+  const cp = (!opts.reset && (await getBackfillCheckpoint(store, pair.name))) || freshCheckpoint();
+
+  const defaultCollectionTitle =
+    pair.collectionId === ALL_COLLECTIONS
+      ? undefined
+      : (await getCollectionTitleById(pair.collectionId).catch(() => undefined)) ?? undefined;
+
+  const thisRun = { processed: 0, created: 0, updated: 0, unchanged: 0, failed: 0, retried: 0 };
+  const toCreatePreview: number[] = [];
+  const toUpdatePreview: number[] = [];
+  let batches = 0;
+  let stoppedEarly = false;
+  cp.retry ??= [];   // checkpoints saved before the retry queue existed
+
+  // Items that failed on earlier pages go first, one page's worth per call
+  if (cp.retry.length && !dryRun) {
+    const batchStart = Date.now();
+    const entries = cp.retry.slice(0, perPage);
+    const items: RaindropItem[] = [];
+    const gone = new Set<number>();
+    const errored = new Set<number>();
+    for (const { id } of entries) {
+      if (deadline && Date.now() >= deadline) break;
+      const detail = await fetchRaindropDetail(id).catch(() => undefined);
+      if (!detail) errored.add(id);
+      else if (
+        !detail.exists ||
+        detail.removed ||
+        !detail.item ||
+        (pair.collectionId !== ALL_COLLECTIONS && pair.collectionId !== String(detail.collectionId))
+      ) {
+        gone.add(id);
+      } else items.push(detail.item);
+    }
+
+    const plan = await planUpserts(pair, items);
+    const writes = await executeUpserts(pair, plan.tasks, { deadline, defaultCollectionTitle });
+    writes.failed.forEach((f) => errored.add(f.raindropId));
+    const written = new Set([...writes.createdIds, ...writes.updatedIds, ...writes.unchangedIds]);
+    const planned = new Set(plan.tasks.map((t) => t.item._id));
+    const fetched = new Set(items.map((i) => i._id));
+
+    thisRun.created += writes.createdIds.length;
+    thisRun.updated += writes.updatedIds.length;
+    thisRun.unchanged += writes.unchangedIds.length;
+    thisRun.failed += errored.size;
+    thisRun.retried += entries.length;
+    cp.created += writes.createdIds.length;
+    cp.updated += writes.updatedIds.length;
+
+    // drop what got written, is up to date or left the collection; count
+    // another attempt for errors; keep what the deadline cut off as it was
+    const next: BackfillCheckpoint['retry'] = [];
+    for (const e of entries) {
+      if (gone.has(e.id) || written.has(e.id) || (fetched.has(e.id) && !planned.has(e.id))) continue;
+      if (!errored.has(e.id)) next.push(e);
+      else if (e.attempts + 1 < RETRY_ATTEMPTS) next.push({ id: e.id, attempts: e.attempts + 1 });
+      // else: gave up; it stays in failedIds
+    }
+    cp.retry = [...next, ...cp.retry.slice(entries.length)];
+    cp.elapsedMs += Date.now() - batchStart;
+    cp.updatedAt = new Date().toISOString();
+    await store.set(checkpointKey(pair.name), cp);
+    if (writes.stoppedEarly) stoppedEarly = true;
+  }
+
+  const fetchPage = (page: number) => fetchRaindropsPage(pair.collectionId, '', perPage, page, 'created');
+
+  while (!cp.done && !stoppedEarly && batches < maxBatches) {
+    if (deadline && Date.now() >= deadline) {
+      stoppedEarly = true;
+      break;
+    }
+    const batchStart = Date.now();
+
+    // isAfter() drops what we've already handled when items shifted right;
+    // when the collection changed size they may have shifted left, so
+    // re-anchor on the last processed item.
+    let { items, count } = await fetchPage(cp.page);
+    let page = cp.page;
+    if (page > 0 && cp.total !== undefined && count !== undefined && count !== cp.total) {
+      ({ page, items, count } = await reanchor(fetchPage, page, { items, count }, cp));
+    }
+    if (count !== undefined) cp.total = count;
+
+    const fresh = items.filter((it) => isAfter(it, cp));
+    const plan = await planUpserts(pair, fresh);
+    batches++;
+
+    if (dryRun) {
+      toCreatePreview.push(...plan.tasks.filter((t) => t.op === 'create').map((t) => t.item._id));
+      toUpdatePreview.push(...plan.tasks.filter((t) => t.op === 'update').map((t) => t.item._id));
+      thisRun.processed += fresh.length;
+      break;
+    }
+
+    const writes = await executeUpserts(pair, plan.tasks, { deadline, defaultCollectionTitle });
+    thisRun.created += writes.createdIds.length;
+    thisRun.updated += writes.updatedIds.length;
+    thisRun.unchanged += writes.unchangedIds.length;
+    thisRun.failed += writes.failed.length;
+    cp.created += writes.createdIds.length;
+    cp.updated += writes.updatedIds.length;
+    cp.failedIds = [...cp.failedIds, ...writes.failed.map((f) => f.raindropId)].slice(-FAILED_IDS_KEPT);
+    cp.elapsedMs += Date.now() - batchStart;
+
+    // Ran out of time mid-page: keep the checkpoint where it was; the next
+    // invocation re-reads this page and skips what is already up to date.
+    if (writes.stoppedEarly) {
+      stoppedEarly = true;
+      cp.updatedAt = new Date().toISOString();
+      await store.set(checkpointKey(pair.name), cp);
+      break;
+    }
+
+    // failures on a page we move past go to the retry queue for the next call
+    const queued = new Set(cp.retry.map((r) => r.id));
+    for (const f of writes.failed) if (!queued.has(f.raindropId)) cp.retry.push({ id: f.raindropId, attempts: 0 });
+
+    thisRun.processed += fresh.length;
+    cp.processed += fresh.length;
+    const last = items[items.length - 1];
+    if (last) {
+      cp.lastId = last._id;
+      cp.lastCreated = last.created;
+    }
+    cp.page = page + 1;
+    cp.done = items.length < perPage;
+    cp.updatedAt = new Date().toISOString();
+    await store.set(checkpointKey(pair.name), cp);
+  }
+
+  const remaining = cp.total !== undefined ? Math.max(0, cp.total - cp.processed) : undefined;
+  const rate = cp.elapsedMs > 0 ? cp.processed / cp.elapsedMs : 0; // items per ms
+  return {
+    pair: pair.name,
+    dryRun,
+    done: cp.done && !cp.retry.length,
+    stoppedEarly,
+    batches,
+    thisRun,
+    progress: {
+      processed: cp.processed,
+      total: cp.total,
+      remaining,
+      percent: cp.total ? Math.round((cp.processed / cp.total) * 1000) / 10 : undefined,
+      etaSeconds:
+        cp.done && !cp.retry.length ? 0 : remaining !== undefined && rate > 0 ? Math.round(remaining / rate / 1000) : undefined
+    },
+    checkpoint: cp,
+    toCreatePreview: dryRun ? toCreatePreview : undefined,
+    toUpdatePreview: dryRun ? toUpdatePreview : undefined
+  };
+}
@@ -0,0 +1,85 @@
+// lib/blocks.ts
+// Pure builders for Notion page-body blocks (no API calls here).
+import type { RaindropHighlight } from './raindrop.js';
+import { plainRichText, markdownToBlocks } from './richtext.js';
+
+// ------- highlights -------
+// Every synced highlight block ends with a small gray "hl:<id>" segment. That
+// marker is how later syncs find their own blocks; anything without it is
+// user content and is never touched.
+const HL_MARKER_RE = /\bhl:([A-Za-z0-9]+)\s*$/;
+
+// Raindrop highlight colors → Notion background colors
+const HL_COLORS: Record<string, string> = {
+  yellow: 'yellow_background',
+  blue: 'blue_background',
+  brown: 'brown_background',
+  cyan: 'blue_background',
+  gray: 'gray_background',
+  green: 'green_background',
+  indigo: 'purple_background',
+  orange: 'orange_background',
+  pink: 'pink_background',
+  purple: 'purple_background',
+  red: 'red_background',
+  teal: 'green_background'
+};
+
+function highlightCaption(h: RaindropHighlight) {
+  const date = h.created ? h.created.slice(0, 10) + ' · ' : '';
+  return { type: 'text', text: { content: `\n${date}hl:${h._id}` }, annotations: { color: 'gray' } };
+}
+
+/** Quote for a bare highlight, callout when it carries a note. */
+export function highlightBlock(h: RaindropHighlight): any {
+  const color = HL_COLORS[h.color ?? 'yellow'] ?? 'yellow_background';
+  const rich_text = [
+    ...plainRichText(h.text),
+    ...(h.note ? [{ type: 'text', text: { content: '\n' } }, ...plainRichText(h.note, { italic: true })] : []),
+    highlightCaption(h)
+  ];
+
+  if (h.note) {
+    return { object: 'block', type: 'callout', callout: { rich_text, color, icon: { type: 'emoji', emoji: '💬' } } };
+  }
+  return { object: 'block', type: 'quote', quote: { rich_text, color } };
+}
+
+/** Plain text of a block's rich_text (used to compare rendered vs existing). */
+export function blockPlainText(block: any): string {
+  const body = block?.[block?.type];
+  return ((body?.rich_text ?? []) as any[]).map((t) => t?.plain_text ?? t?.text?.content ?? '').join('');
+}
+
+/** Highlight ID stamped on a block we created, or undefined for user blocks. */
+export function readHighlightMarker(block: any): string | undefined {
+  if (block?.type !== 'quote' && block?.type !== 'callout') return undefined;
+  return blockPlainText(block).match(HL_MARKER_RE)?.[1];
+}
+
+// ------- long notes -------
+// Notes too long for the property live in a toggle with this exact title.
+export const NOTE_TOGGLE_TITLE = 'Raindrop note';
+
+// Appended to the (truncated) Notes property when the full note is in the body
+export const NOTE_CONTINUED = ' … (full note in page body)';
+
+/** Toggle holding the note as blocks; children beyond 100 must be appended separately. */
+export function noteToggleBlock(md: string): { block: any; children: any[] } {
+  const children = markdownToBlocks(md);
+  return {
+    block: {
+      object: 'block',
+      type: 'toggle',
+      toggle: {
+        rich_text: plainRichText(NOTE_TOGGLE_TITLE),
+        children: children.slice(0, 100)
+      }
+    },
+    children: children.slice(100)
+  };
+}
+
+export function isNoteToggle(block: any): boolean {
+  return block?.type === 'toggle' && blockPlainText(block) === NOTE_TOGGLE_TITLE;
+}
@@ -0,0 +1,182 @@
+// lib/collections.ts
+// Optional mirror of Raindrop collections into a Notion "Collections" database,
+// so bookmarks link to a collection page instead of carrying its title as text.
+// Renames and re-parenting then only touch the collection's own page.
+import { fetchAllCollections, getCollectionTitleById, type RaindropCollection } from './raindrop.js';
+import { notion, titlePropertyOf } from './notion.js';
+import { comparableProperty, encodeProperty, decodeProperty, type NotionPropType } from './mapping.js';
+import { plainRichText } from './richtext.js';
+import { checkFixedSchema, type SchemaReport } from './schema.js';
+
+type CollectionProp = 'collectionId' | 'parent' | 'path' | 'color' | 'count';
+
+// Columns of the Collections database (plus its title column, whatever it's called)
+export const COLLECTION_PROPS: Record<CollectionProp, { name: string; type: NotionPropType }> = {
+  collectionId: { name: 'Collection ID', type: 'number' },
+  parent: { name: 'Parent', type: 'relation' },
+  path: { name: 'Path', type: 'rich_text' },
+  color: { name: 'Color', type: 'rich_text' },
+  count: { name: 'Count', type: 'number' }
+};
+
+const PATH_SEPARATOR = ' / ';
+
+// Raindrop's system collections have no /collection entry
+const SYSTEM_TITLES: Record<string, string> = { '-1': 'Unsorted', '-99': 'Trash' };
+
+type Queried = Awaited<ReturnType<typeof notion.databases.query>>;
+
+// databaseId → (collection id → page id)
+const pageIdCache = new Map<string, Map<number, string>>();
+
+function cacheFor(databaseId: string) {
+  if (!pageIdCache.has(databaseId)) pageIdCache.set(databaseId, new Map());
+  return pageIdCache.get(databaseId)!;
+}
+
+/** Every page in the Collections DB that carries a Collection ID. */
+async function listCollectionPages(databaseId: string) {
+  const out = new Map<number, { pageId: string; properties: Record<string, any> }>();
+  let cursor: string | undefined = undefined;
+  while (true) {
+    const resp: Queried = await notion.databases.query({
+      database_id: databaseId,
+      page_size: 100,
+      start_cursor: cursor
+    });
+    for (const page of resp.results as any[]) {
+      const id = decodeProperty('number', page.properties?.[COLLECTION_PROPS.collectionId.name]);
+      if (typeof id === 'number') out.set(id, { pageId: page.id, properties: page.properties });
+    }
+    if (!resp.has_more) break;
+    cursor = resp.next_cursor ?? undefined;
+  }
+  const cache = cacheFor(databaseId);
+  for (const [id, p] of out) cache.set(id, p.pageId);
+  return out;
+}
+
+function pathOf(c: RaindropCollection, byId: Map<number, RaindropCollection>) {
+  const parts = [c.title];
+  const seen = new Set([c._id]);
+  let parent = c.parentId !== undefined ? byId.get(c.parentId) : undefined;
+  while (parent && !seen.has(parent._id)) {
+    parts.unshift(parent.title);
+    seen.add(parent._id);
+    parent = parent.parentId !== undefined ? byId.get(parent.parentId) : undefined;
+  }
+  return parts.join(PATH_SEPARATOR);
+}
+
+export type CollectionsReport = {
+  notionDatabaseId: string;
+  dryRun: boolean;
+  total: number;
+  created: number[];
+  updated: { collectionId: number; fields: string[] }[];
+  unchanged: number;
+  missingInRaindrop: number[];     // pages left alone; bookmarks may still link to them
+};
+
+/**
+ * Bring the Collections DB in line with Raindrop: create missing pages, then
+ * update title, path, color, count and parent where they differ.
+ */
+export async function syncCollections(databaseId: string, { dryRun = false } = {}): Promise<CollectionsReport> {
+  const collections = await fetchAllCollections();
+  const byId = new Map(collections.map((c) => [c._id, c]));
+  const pages = await listCollectionPages(databaseId);
+  const titleProp = await titlePropertyOf(databaseId);
+  const P = COLLECTION_PROPS;
+
+  const report: CollectionsReport = {
+    notionDatabaseId: databaseId,
+    dryRun,
+    total: collections.length,
+    created: [],
+    updated: [],
+    unchanged: 0,
+    missingInRaindrop: [...pages.keys()].filter((id) => !byId.has(id) && !SYSTEM_TITLES[id])
+  };
+
+  // 1) pages first, so every parent has an id to link to
+  for (const c of collections) {
+    if (pages.has(c._id)) continue;
+    report.created.push(c._id);
+    if (dryRun) continue;
+    const page = await notion.pages.create({
+      parent: { database_id: databaseId },
+      properties: {
+        [titleProp]: { title: plainRichText(c.title) },
+        [P.collectionId.name]: encodeProperty('number', c._id)
+      }
+    });
+    pages.set(c._id, { pageId: page.id, properties: {} });
+    cacheFor(databaseId).set(c._id, page.id);
+  }
+
+  // 2) then the fields that can change
+  for (const c of collections) {
+    const page = pages.get(c._id);
+    if (!page) continue; // dry run: not created
+    const parentPage = c.parentId !== undefined ? pages.get(c.parentId) : undefined;
+    const wanted: Record<string, { type: NotionPropType; value: any }> = {
+      [titleProp]: { type: 'title', value: c.title },
+      [P.path.name]: { type: P.path.type, value: pathOf(c, byId) },
+      [P.color.name]: { type: P.color.type, value: c.color ?? '' },
+      [P.count.name]: { type: P.count.type, value: c.count },
+      [P.parent.name]: { type: P.parent.type, value: parentPage ? [parentPage.pageId] : [] }
+    };
+
+    const properties: Record<string, any> = {};
+    for (const [name, { type, value }] of Object.entries(wanted)) {
+      const next = encodeProperty(type, value);
+      if (comparableProperty(type, next) !== comparableProperty(type, page.properties[name])) properties[name] = next;
+    }
+    const fields = Object.keys(properties);
+    if (!fields.length) {
+      report.unchanged++;
+      continue;
+    }
+    if (!report.created.includes(c._id)) report.updated.push({ collectionId: c._id, fields });
+    if (!dryRun) await notion.pages.update({ page_id: page.pageId, properties });
+  }
+  return report;
+}
+
+/**
+ * Page for a collection, for the bookmark's relation. Looked up on a cache miss
+ * and created (title only) if the mirror hasn't caught up yet; the next
+ * syncCollections fills in the rest.
+ */
+export async function collectionPageId(databaseId: string, collectionId: number | string): Promise<string> {
+  const id = Number(collectionId);
+  const cache = cacheFor(databaseId);
+  if (cache.has(id)) return cache.get(id)!;
+
+  const resp: Queried = await notion.databases.query({
+    database_id: databaseId,
+    filter: { property: COLLECTION_PROPS.collectionId.name, number: { equals: id } },
+    page_size: 1
+  });
+  let pageId = (resp.results[0] as any)?.id as string | undefined;
+  if (!pageId) {
+    const title =
+      SYSTEM_TITLES[String(id)] ?? (await getCollectionTitleById(id).catch(() => undefined)) ?? `Collection ${id}`;
+    const page = await notion.pages.create({
+      parent: { database_id: databaseId },
+      properties: {
+        [await titlePropertyOf(databaseId)]: { title: plainRichText(title) },
+        [COLLECTION_PROPS.collectionId.name]: encodeProperty('number', id)
+      }
+    });
+    pageId = page.id;
+  }
+  cache.set(id, pageId);
+  return pageId;
+}
+
+/** Doctor check for the Collections DB; `fix` creates the missing columns. */
+export function checkCollectionsSchema(databaseId: string, { fix = false } = {}): Promise<SchemaReport> {
+  return checkFixedSchema(databaseId, Object.values(COLLECTION_PROPS), 'collection', { fix });
+}
@@ -0,0 +1,183 @@
+// lib/diagnostics.ts
+// Connectivity and schema checks plus single-item inspection, shared by
+// /api/doctor, the test-* endpoints and the CLI.
+import { fetchRaindropUser, fetchRaindropDetail } from './raindrop.js';
+import { notion, getPagesByRaindropIds } from './notion.js';
+import { loadSyncPairs, selectPairs, groupPairsByDatabase, ALL_COLLECTIONS } from './pairs.js';
+import { checkDatabaseSchema, type SchemaReport } from './schema.js';
+import { checkCollectionsSchema } from './collections.js';
+import { checkRunLogSchema } from './runlog.js';
+import { channelsFromEnv } from './notify.js';
+import { getStateStore, getCursor } from './state.js';
+
+export type CheckResult = { check: string; ok: boolean; detail: string };
+
+export async function checkRaindrop(): Promise<CheckResult> {
+  try {
+    const user = await fetchRaindropUser();
+    return { check: 'raindrop', ok: true, detail: `user ${user.id} (${user.pro ? 'pro' : 'free'})` };
+  } catch (e: any) {
+    return { check: 'raindrop', ok: false, detail: e?.message || 'Error' };
+  }
+}
+
+/** Retrieve the database; returns its title so a wrong ID is easy to spot. */
+export async function checkNotionDatabase(databaseId: string): Promise<CheckResult & { title?: string }> {
+  const check = `notion:${databaseId}`;
+  try {
+    const db: any = await notion.databases.retrieve({ database_id: databaseId });
+    const title: string | undefined = Array.isArray(db?.title) ? db.title[0]?.plain_text : undefined;
+    return { check, ok: true, detail: title ?? '(untitled)', title };
+  } catch (e: any) {
+    return { check, ok: false, detail: e?.message || 'Error' };
+  }
+}
+
+/** Round-trip a value through the configured store (skipped for `none`). */
+export async function checkStateStore(): Promise<CheckResult> {
+  try {
+    const store = getStateStore();
+    if (store.kind === 'none') return { check: 'state', ok: true, detail: 'none (cursors disabled)' };
+    const probe = new Date().toISOString();
+    await store.set('doctor:probe', probe);
+    const back = await store.get<string>('doctor:probe');
+    await store.delete('doctor:probe');
+    return back === probe
+      ? { check: 'state', ok: true, detail: store.kind }
+      : { check: 'state', ok: false, detail: `${store.kind}: read back a different value` };
+  } catch (e: any) {
+    return { check: 'state', ok: false, detail: e?.message || 'Error' };
+  }
+}
+
+/** Configured alert channels and where their dedup marks live (skipped when none are set). */
+export function checkNotify(): CheckResult | undefined {
+  try {
+    const channels = channelsFromEnv().map((c) => c.name).join(', ');
+    if (!channels) return undefined;
+    const store = getStateStore();
+    if (store.kind !== 'none') return { check: 'notify', ok: true, detail: `${channels}; dedup in ${store.kind}` };
+    if (process.env.SYNC_LOG_DATABASE_ID) return { check: 'notify', ok: true, detail: `${channels}; dedup in the Sync Log` };
+    return {
+      check: 'notify',
+      ok: false,
+      detail: `${channels}; STATE_STORE is none and SYNC_LOG_DATABASE_ID is unset, so every failing run alerts`
+    };
+  } catch (e: any) {
+    return { check: 'notify', ok: false, detail: e?.message || 'Error' };
+  }
+}
+
+/**
+ * Every check for the selected pairs; each Notion database is checked once,
+ * including its schema. `fix` creates missing properties and select options.
+ */
+export async function runDoctor(opts: { pair?: string; fix?: boolean } = {}) {
+  const checks: CheckResult[] = [];
+  const schemas: SchemaReport[] = [];
+  checks.push(await checkRaindrop());
+
+  // one check line per schema report
+  async function schemaCheck(check: string, run: () => Promise<SchemaReport>) {
+    try {
+      const schema = await run();
+      schemas.push(schema);
+      const open = schema.issues.filter((i) => !i.fixed).length;
+      const fixed = schema.issues.length - open;
+      checks.push({
+        check,
+        ok: schema.ok,
+        detail:
+          `${schema.checked} properties, ${open} issue(s)` +
+          (fixed ? `, ${fixed} fixed` : open && schema.issues.some((i) => i.fixable) ? ' (run with --fix)' : '')
+      });
+    } catch (e: any) {
+      checks.push({ check, ok: false, detail: e?.message || 'Error' });
+    }
+  }
+
+  try {
+    const pairs = selectPairs(loadSyncPairs(), opts.pair);
+    for (const [databaseId, group] of groupPairsByDatabase(pairs)) {
+      const { title: _title, ...access } = await checkNotionDatabase(databaseId);
+      checks.push(access);
+      if (!access.ok) continue;
+      await schemaCheck(`schema:${databaseId}`, () => checkDatabaseSchema(group, { fix: opts.fix }));
+    }
+
+    for (const databaseId of new Set(pairs.map((p) => p.collectionsDatabaseId).filter(Boolean) as string[])) {
+      await schemaCheck(`collections:${databaseId}`, () => checkCollectionsSchema(databaseId, { fix: opts.fix }));
+    }
+  } catch (e: any) {
+    checks.push({ check: 'pairs', ok: false, detail: e?.message || 'Error' });
+  }
+
+  const logDb = process.env.SYNC_LOG_DATABASE_ID;
+  if (logDb) await schemaCheck(`sync-log:${logDb}`, () => checkRunLogSchema(logDb, { fix: opts.fix }));
+
+  checks.push(await checkStateStore());
+  const notify = checkNotify();
+  if (notify) checks.push(notify);
+  return { ok: checks.every((c) => c.ok), fix: !!opts.fix, checks, schemas };
+}
+
+/**
+ * Show one raindrop next to its Notion row(s) in every pair that could hold it,
+ * and what the next sync would do with it.
+ */
+export async function inspectRaindrop(raindropId: number, opts: { pair?: string } = {}) {
+  const detail = await fetchRaindropDetail(raindropId);
+  const pairs = selectPairs(loadSyncPairs(), opts.pair);
+  const store = getStateStore();
+
+  const rows: any[] = [];
+  for (const pair of pairs) {
+    const routed =
+      pair.collectionId === ALL_COLLECTIONS ||
+      (detail.collectionId !== undefined && pair.collectionId === String(detail.collectionId));
+    const found = (await getPagesByRaindropIds(pair, [raindropId])).get(raindropId);
+    if (!routed && !found) continue;
+
+    let nextSync: string;
+    if (!detail.exists || detail.removed) nextSync = found ? 'reconcile will flag as deleted' : 'nothing';
+    else if (!found) nextSync = routed ? 'create' : 'nothing';
+    else if (found.locked) nextSync = 'skip (locked)';
+    else if (found.conflict) nextSync = 'skip (conflict flagged)';
+    else if (!routed) nextSync = 'reconcile will update Collection (moved)';
+    else {
+      const itemLast = detail.lastUpdate || detail.item?.created;
+      const newer =
+        !!itemLast &&
+        (!found.raindropLastUpdate || new Date(itemLast).getTime() > new Date(found.raindropLastUpdate).getTime());
+      nextSync = newer ? 'update' : 'up to date';
+    }
+
+    rows.push({
+      pair: pair.name,
+      notionDatabaseId: pair.databaseId,
+      routed,
+      pageId: found?.pageId,
+      raindropLastUpdate: found?.raindropLastUpdate,
+      locked: found?.locked ?? false,
+      lockedFields: found?.lockedFields ?? [],
+      conflict: found?.conflict ?? false,
+      cursor: (await getCursor(store, pair.name))?.cursor,
+      nextSync
+    });
+  }
+
+  return {
+    raindropId,
+    raindrop: detail.exists
+      ? {
+          removed: !!detail.removed,
+          collectionId: detail.collectionId,
+          lastUpdate: detail.lastUpdate,
+          title: detail.item?.title,
+          link: detail.item?.link,
+          tags: detail.item?.tags
+        }
+      : null,
+    notion: rows
+  };
+}
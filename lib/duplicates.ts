@@ -0,0 +1,280 @@
+// lib/duplicates.ts
+// Rows whose URLs share a canonical form (the same article saved twice, or
+// with different tracking params). The oldest row is the primary; the others
+// get "Duplicate Of" → primary, and with the merge policy the primary (row and
+// raindrop) also takes in their tags and notes.
+import { notion } from './notion.js';
+import { fetchRaindropDetail, updateRaindrop, type RaindropPatch } from './raindrop.js';
+import {
+  readMapped,
+  readMappedMarkdown,
+  readLockedFields,
+  setMapped,
+  setMappedRichText,
+  comparableProperty,
+  encodeProperty,
+  type MappedField,
+  type PropertyMapping
+} from './mapping.js';
+import { markdownToRichText, fitsProperty } from './richtext.js';
+import { NOTE_CONTINUED } from './blocks.js';
+import { canonicalUrl } from './urls.js';
+import type { DuplicatePolicy, SyncPair } from './pairs.js';
+
+type Queried = Awaited<ReturnType<typeof notion.databases.query>>;
+
+// same chunking as the Raindrop ID lookups
+const NOTION_QUERY_CHUNK = 25;
+
+type DuplicateRow = {
+  pageId: string;
+  raindropId: number;
+  canonical: string;
+  created?: string;
+  locked: boolean;
+  lockedFields: MappedField[];
+  tags: string[];
+  note: string;
+  duplicateOf: string[];
+  properties: Record<string, any>;
+};
+
+export type DuplicatesReport = {
+  policy: DuplicatePolicy;
+  groups: { canonicalUrl: string; primary: number; duplicates: number[] }[];
+  linked: number[];           // duplicates whose Duplicate Of now points at the primary
+  merged: number[];           // primaries that took in tags / notes (row and raindrop)
+  canonicalFilled: number;    // rows whose Canonical URL was written (reconcile)
+  skippedLocked: number[];
+};
+
+function emptyReport(policy: DuplicatePolicy): DuplicatesReport {
+  return { policy, groups: [], linked: [], merged: [], canonicalFilled: 0, skippedLocked: [] };
+}
+
+function toRow(page: any, m: PropertyMapping): DuplicateRow | undefined {
+  const props = page.properties || {};
+  const raindropId = readMapped(props, m, 'raindropId');
+  const link = readMapped(props, m, 'link');
+  if (typeof raindropId !== 'number' || typeof link !== 'string' || !link.trim()) return undefined;
+
+  const tags = readMapped(props, m, 'tags');
+  const duplicateOf = readMapped(props, m, 'duplicateOf');
+  return {
+    pageId: page.id,
+    raindropId,
+    canonical: canonicalUrl(link),
+    created: readMapped(props, m, 'created') as string | undefined,
+    locked: !!readMapped(props, m, 'lock'),
+    lockedFields: readLockedFields(props, m),
+    tags: Array.isArray(tags) ? tags : typeof tags === 'string' && tags ? tags.split(/,\s*/) : [],
+    note: (readMappedMarkdown(props, m, 'note') as string | undefined) ?? '',
+    duplicateOf: Array.isArray(duplicateOf) ? duplicateOf : [],
+    properties: props
+  };
+}
+
+// oldest first; Raindrop IDs break ties (and stand in for a missing Created)
+function byAge(a: DuplicateRow, b: DuplicateRow) {
+  const ta = a.created ? new Date(a.created).getTime() : NaN;
+  const tb = b.created ? new Date(b.created).getTime() : NaN;
+  if (Number.isFinite(ta) && Number.isFinite(tb) && ta !== tb) return ta - tb;
+  return a.raindropId - b.raindropId;
+}
+
+function sameIds(a: string[], b: string[]) {
+  return comparableProperty('relation', encodeProperty('relation', a)) ===
+    comparableProperty('relation', encodeProperty('relation', b));
+}
+
+// merge writes carry Synced At so reverse sync doesn't push them to Raindrop
+async function writeRow(m: PropertyMapping, pageId: string, properties: Record<string, any>) {
+  setMapped(properties, m, 'syncedAt', new Date().toISOString());
+  await notion.pages.update({ page_id: pageId, properties });
+}
+
+// The primary raindrop takes the merge too; otherwise the next forward update
+// of the primary resets Tags and Notes and reconcile merges them again.
+// Returns the raindrop as written (undefined when it's gone).
+async function mergeIntoRaindrop(raindropId: number, addedTags: string[], note?: string) {
+  const detail = await fetchRaindropDetail(raindropId);
+  if (!detail.exists || detail.removed || !detail.item) return undefined;
+  const patch: RaindropPatch = {};
+  const current = detail.item.tags ?? [];
+  const tags = [...current];
+  for (const t of addedTags) {
+    if (!tags.some((x) => x.toLowerCase() === t.toLowerCase())) tags.push(t);
+  }
+  if (tags.length > current.length) patch.tags = tags;
+  if (note !== undefined) patch.note = note;
+  return Object.keys(patch).length ? updateRaindrop(raindropId, patch) : detail.item;
+}
+
+async function resolveGroup(
+  pair: SyncPair,
+  rows: DuplicateRow[],
+  report: DuplicatesReport,
+  dryRun: boolean
+) {
+  const m = pair.mapping;
+  const [primary, ...dups] = [...rows].sort(byAge);
+  report.groups.push({
+    canonicalUrl: primary.canonical,
+    primary: primary.raindropId,
+    duplicates: dups.map((d) => d.raindropId)
+  });
+
+  // 1) Duplicate Of: empty on the primary, the primary on every other row
+  if (m.duplicateOf) {
+    for (const row of [primary, ...dups]) {
+      const want = row === primary ? [] : [primary.pageId];
+      if (sameIds(row.duplicateOf, want)) continue;
+      if (row.locked || row.lockedFields.includes('duplicateOf')) {
+        report.skippedLocked.push(row.raindropId);
+        continue;
+      }
+      const properties: Record<string, any> = {};
+      setMapped(properties, m, 'duplicateOf', want);
+      if (!dryRun) await writeRow(m, row.pageId, properties);
+      if (row !== primary) report.linked.push(row.raindropId);
+    }
+  }
+
+  // 2) merge: the primary gets the union of tags and every distinct note
+  if (pair.duplicates !== 'merge') return;
+  if (primary.locked) {
+    report.skippedLocked.push(primary.raindropId);
+    return;
+  }
+  const properties: Record<string, any> = {};
+  let addedTags: string[] = [];
+  let mergedNote: string | undefined;
+
+  if (m.tags && !primary.lockedFields.includes('tags')) {
+    const tags = [...primary.tags];
+    for (const t of dups.flatMap((d) => d.tags)) {
+      if (!tags.some((x) => x.toLowerCase() === t.toLowerCase())) tags.push(t);
+    }
+    if (tags.length > primary.tags.length) {
+      setMapped(properties, m, 'tags', tags);
+      addedTags = tags.slice(primary.tags.length);
+    }
+  }
+
+  // truncated notes (full text in the page body) are never merged
+  if (m.note && !primary.lockedFields.includes('note') && !primary.note.endsWith(NOTE_CONTINUED)) {
+    const notes = [primary.note.trim()].filter(Boolean);
+    for (const n of dups.map((d) => d.note.trim())) {
+      if (n && !n.endsWith(NOTE_CONTINUED) && !notes.some((x) => x.includes(n))) notes.push(n);
+    }
+    const note = notes.join('\n\n');
+    const richText = markdownToRichText(note);
+    if (note !== primary.note.trim() && fitsProperty(richText)) {
+      setMappedRichText(properties, m, 'note', richText, note);
+      mergedNote = note;
+    }
+  }
+
+  if (!Object.keys(properties).length) return;
+  if (!dryRun) {
+    // the row records the raindrop's new LastUpdate, so forward sync sees nothing to do
+    const written = await mergeIntoRaindrop(primary.raindropId, addedTags, mergedNote);
+    if (written?.lastUpdate) setMapped(properties, m, 'raindropLastUpdate', written.lastUpdate);
+    await writeRow(m, primary.pageId, properties);
+  }
+  report.merged.push(primary.raindropId);
+}
+
+async function resolveAll(pair: SyncPair, rows: DuplicateRow[], report: DuplicatesReport, dryRun: boolean) {
+  const byUrl = new Map<string, DuplicateRow[]>();
+  for (const row of rows) {
+    const list = byUrl.get(row.canonical) ?? [];
+    if (!list.some((r) => r.pageId === row.pageId)) list.push(row);
+    byUrl.set(row.canonical, list);
+  }
+  for (const group of byUrl.values()) {
+    if (group.length > 1) await resolveGroup(pair, group, report, dryRun);
+  }
+}
+
+/**
+ * Reconcile: group every row in the pair's database by canonical URL, and
+ * fill in Canonical URL where it is missing or stale.
+ */
+export async function dedupeDatabase(pair: SyncPair, { dryRun = false } = {}): Promise<DuplicatesReport> {
+  const m = pair.mapping;
+  const report = emptyReport(pair.duplicates);
+  const rows: DuplicateRow[] = [];
+  let cursor: string | undefined = undefined;
+  while (true) {
+    const resp: Queried = await notion.databases.query({
+      database_id: pair.databaseId,
+      page_size: 100,
+      start_cursor: cursor
+    });
+    for (const page of resp.results) {
+      const row = toRow(page, m);
+      if (row) rows.push(row);
+    }
+    if (!resp.has_more) break;
+    cursor = resp.next_cursor ?? undefined;
+  }
+
+  if (m.canonicalUrl) {
+    for (const row of rows) {
+      const next = encodeProperty(m.canonicalUrl.type, row.canonical);
+      const current = row.properties[m.canonicalUrl.name];
+      if (comparableProperty(m.canonicalUrl.type, next) === comparableProperty(m.canonicalUrl.type, current)) continue;
+      if (row.locked) continue;
+      if (!dryRun) await notion.pages.update({ page_id: row.pageId, properties: { [m.canonicalUrl.name]: next } });
+      report.canonicalFilled++;
+    }
+  }
+
+  await resolveAll(pair, rows, report, dryRun);
+  return report;
+}
+
+/**
+ * Sync: only the URLs just written, looked up through Canonical URL, so the
+ * pass costs a few queries instead of a full scan. Rows without a Canonical
+ * URL yet are found by the next reconcile.
+ */
+export async function dedupeLinks(
+  pair: SyncPair,
+  links: string[],
+  { dryRun = false } = {}
+): Promise<DuplicatesReport> {
+  const m = pair.mapping;
+  const report = emptyReport(pair.duplicates);
+  if (!m.canonicalUrl) return report;
+
+  const spec = m.canonicalUrl;
+  const canonicals = [...new Set(links.filter(Boolean).map((l) => canonicalUrl(l)))];
+  const rows: DuplicateRow[] = [];
+  for (let i = 0; i < canonicals.length; i += NOTION_QUERY_CHUNK) {
+    const filters = canonicals.slice(i, i + NOTION_QUERY_CHUNK).map((url) =>
+      spec.type === 'url'
+        ? { property: spec.name, url: { equals: url } }
+        : { property: spec.name, rich_text: { equals: url } }
+    );
+    let cursor: string | undefined = undefined;
+    while (true) {
+      const resp: Queried = await notion.databases.query({
+        database_id: pair.databaseId,
+        filter: filters.length === 1 ? filters[0] : { or: filters },
+        page_size: 100,
+        start_cursor: cursor
+      });
+      for (const page of resp.results) {
+        const row = toRow(page, m);
+        if (row) rows.push(row);
+      }
+      if (!resp.has_more) break;
+      cursor = resp.next_cursor ?? undefined;
+    }
+  }
+
+  await resolveAll(pair, rows, report, dryRun);
+  return report;
+}
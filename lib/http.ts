@@ -0,0 +1,202 @@
+// lib/http.ts
+// Shared request layer: per-service token bucket, retry with exponential
+// backoff + jitter, and Retry-After / X-RateLimit-* handling.
+
+export type Service = 'raindrop' | 'notion';
+
+function envNum(name: string, def: number, { allowZero = false } = {}) {
+  const v = process.env[name];
+  const n = v ? parseFloat(v) : NaN;
+  return Number.isFinite(n) && (n > 0 || (allowZero && n === 0)) ? n : def;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// ------- token bucket -------
+type Bucket = {
+  ratePerSec: number;
+  capacity: number;
+  tokens: number;
+  last: number;
+  pausedUntil: number;   // set when the server tells us to back off
+  queue: Promise<void>;  // serialises acquire() so waiters don't race
+};
+
+function makeBucket(ratePerSec: number, capacity = Math.max(1, Math.ceil(ratePerSec))): Bucket {
+  return { ratePerSec, capacity, tokens: capacity, last: Date.now(), pausedUntil: 0, queue: Promise.resolve() };
+}
+
+// Raindrop allows 120 req/min; Notion asks for an average of 3 req/s
+const buckets: Record<Service, Bucket> = {
+  raindrop: makeBucket(envNum('RAINDROP_RPS', 2)),
+  notion: makeBucket(envNum('NOTION_RPS', 3))
+};
+
+function acquire(service: Service): Promise<void> {
+  const b = buckets[service];
+  const next = b.queue.then(async () => {
+    while (true) {
+      const now = Date.now();
+      if (b.pausedUntil > now) {
+        stats.throttledMs[service] += b.pausedUntil - now;
+        await sleep(b.pausedUntil - now);
+        continue;
+      }
+      b.tokens = Math.min(b.capacity, b.tokens + ((now - b.last) / 1000) * b.ratePerSec);
+      b.last = now;
+      if (b.tokens >= 1) {
+        b.tokens -= 1;
+        return;
+      }
+      const waitMs = Math.ceil(((1 - b.tokens) / b.ratePerSec) * 1000);
+      stats.throttledMs[service] += waitMs;
+      await sleep(waitMs);
+    }
+  });
+  b.queue = next.catch(() => undefined);
+  return next;
+}
+
+function pause(service: Service, ms: number) {
+  const b = buckets[service];
+  b.pausedUntil = Math.max(b.pausedUntil, Date.now() + Math.min(ms, maxWaitMs()));
+}
+
+// ------- per-run stats -------
+export type HttpStats = {
+  requests: Record<Service, number>;
+  retries: Record<Service, number>;
+  throttledMs: Record<Service, number>;
+};
+
+const stats: HttpStats = {
+  requests: { raindrop: 0, notion: 0 },
+  retries: { raindrop: 0, notion: 0 },
+  throttledMs: { raindrop: 0, notion: 0 }
+};
+
+/** Snapshot of counters since the last reset (for the JSON report). */
+export function getHttpStats(): HttpStats {
+  return JSON.parse(JSON.stringify(stats));
+}
+
+export function resetHttpStats() {
+  for (const s of ['raindrop', 'notion'] as Service[]) {
+    stats.requests[s] = 0;
+    stats.retries[s] = 0;
+    stats.throttledMs[s] = 0;
+  }
+}
+
+// ------- run deadline -------
+// No retry wait may run past it; the failed response goes back to the caller
+let deadline: number | undefined;
+
+/** Set (or clear) the current run's deadline, in epoch ms. */
+export function setHttpDeadline(at?: number) {
+  deadline = at;
+}
+
+// ------- retry policy -------
+const RETRY_STATUS = new Set([408, 425, 429, 500, 502, 503, 504]);
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/**
+ * Whether sending the request twice is harmless. Notion's query and search
+ * POSTs only read, and its page/block PATCHes set values; appending children
+ * does not.
+ */
+export function isIdempotent(service: Service, input: string | URL, method = 'GET') {
+  const m = method.toUpperCase();
+  if (IDEMPOTENT_METHODS.has(m)) return true;
+  if (service !== 'notion') return false;
+  const path = new URL(input).pathname;
+  if (m === 'POST') return /\/(query|search)$/.test(path);
+  if (m === 'PATCH') return !/\/children$/.test(path);
+  return false;
+}
+
+// longest a Retry-After / X-RateLimit-Reset may make us wait
+function maxWaitMs() {
+  return envNum('HTTP_MAX_WAIT_MS', 60_000);
+}
+
+// Retry-After is either seconds or an HTTP date
+function retryAfterMs(res: Response): number | undefined {
+  const h = res.headers.get('retry-after');
+  if (!h) return undefined;
+  const secs = Number(h);
+  if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+  const at = Date.parse(h);
+  return Number.isFinite(at) ? Math.max(0, at - Date.now()) : undefined;
+}
+
+// Raindrop: X-RateLimit-Remaining / X-RateLimit-Reset (epoch seconds)
+function rateLimitResetMs(res: Response): number | undefined {
+  const remaining = res.headers.get('x-ratelimit-remaining');
+  const reset = res.headers.get('x-ratelimit-reset');
+  if (remaining === null || reset === null || Number(remaining) > 0) return undefined;
+  const resetAt = Number(reset) * 1000;
+  return Number.isFinite(resetAt) ? Math.max(0, resetAt - Date.now()) : undefined;
+}
+
+function backoffMs(attempt: number) {
+  const base = envNum('HTTP_BACKOFF_BASE_MS', 500);
+  const max = envNum('HTTP_BACKOFF_MAX_MS', 30_000);
+  const exp = Math.min(max, base * 2 ** attempt);
+  return exp / 2 + Math.random() * (exp / 2); // "equal jitter"
+}
+
+const pastDeadline = (waitMs: number) => deadline !== undefined && Date.now() + waitMs >= deadline;
+
+/**
+ * fetch() with the service's rate limiter. Idempotent requests are retried on
+ * 408/425/429/5xx and network errors; everything else only on 429, which the
+ * server sends before doing anything. Waits are capped at HTTP_MAX_WAIT_MS and
+ * never run past the run deadline. Non-retryable responses are returned as-is
+ * for the caller.
+ */
+export async function fetchWithRetry(
+  service: Service,
+  input: string | URL,
+  init?: RequestInit
+): Promise<Response> {
+  const maxRetries = envNum('HTTP_MAX_RETRIES', 5, { allowZero: true });
+  const idempotent = isIdempotent(service, input, init?.method);
+
+  for (let attempt = 0; ; attempt++) {
+    await acquire(service);
+    stats.requests[service]++;
+
+    let res: Response;
+    try {
+      res = await fetch(input, init);
+    } catch (e) {
+      const waitMs = backoffMs(attempt);
+      if (!idempotent || attempt >= maxRetries || pastDeadline(waitMs)) throw e;
+      stats.retries[service]++;
+      await sleep(waitMs);
+      continue;
+    }
+
+    // proactively stop before the server starts refusing us
+    const resetMs = rateLimitResetMs(res);
+    if (resetMs !== undefined) pause(service, resetMs);
+
+    const retryable = res.status === 429 || (idempotent && RETRY_STATUS.has(res.status));
+    if (!retryable || attempt >= maxRetries) return res;
+
+    const waitMs = Math.min(retryAfterMs(res) ?? resetMs ?? backoffMs(attempt), maxWaitMs());
+    if (pastDeadline(waitMs)) return res;
+    if (res.status === 429) pause(service, waitMs);
+    stats.retries[service]++;
+    await res.body?.cancel().catch(() => undefined);
+    await sleep(waitMs);
+  }
+}
+
+export const raindropFetch = (input: string | URL, init?: RequestInit) =>
+  fetchWithRetry('raindrop', input, init);
+
+export const notionFetch = (input: string | URL, init?: RequestInit) =>
+  fetchWithRetry('notion', input, init);
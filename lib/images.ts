@@ -0,0 +1,37 @@
+// lib/images.ts
+// Page cover and icon for a raindrop: its cover (or first image in media)
+// and the site's favicon. Only well-formed http(s) URLs are ever handed to Notion.
+import type { RaindropItem } from './raindrop.js';
+
+// Notion rejects URLs longer than this
+const NOTION_URL_MAX = 2000;
+
+// {domain} is replaced with the item's host
+const DEFAULT_FAVICON_URL = 'https://www.google.com/s2/favicons?domain={domain}&sz=64';
+
+/** The URL if Notion will accept it as an external image; undefined otherwise. */
+export function safeImageUrl(url?: string): string | undefined {
+  if (!url || url.length > NOTION_URL_MAX) return undefined;
+  try {
+    const u = new URL(url.trim());
+    return u.protocol === 'https:' || u.protocol === 'http:' ? u.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Raindrop's cover, falling back to the first image in `media`. */
+export function coverUrl(item: RaindropItem): string | undefined {
+  return (
+    safeImageUrl(item.cover) ??
+    safeImageUrl(item.media?.find((m) => !m.type || m.type === 'image')?.link)
+  );
+}
+
+/** Favicon for the item's site, from FAVICON_URL (or Google's favicon service). */
+export function faviconUrl(item: RaindropItem): string | undefined {
+  const domain = item.domain?.replace(/^www\./, '');
+  if (!domain) return undefined;
+  const template = process.env.FAVICON_URL || DEFAULT_FAVICON_URL;
+  return safeImageUrl(template.replace('{domain}', encodeURIComponent(domain)));
+}
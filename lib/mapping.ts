@@ -0,0 +1,374 @@
+// lib/mapping.ts
+import { readFileSync } from 'node:fs';
+
+import { plainRichText, richTextToMarkdown } from './richtext.js';
+
+export type NotionPropType =
+  | 'title'
+  | 'rich_text'
+  | 'select'
+  | 'multi_select'
+  | 'url'
+  | 'date'
+  | 'number'
+  | 'checkbox'
+  | 'relation'
+  | 'files';
+
+export type PropertySpec = { name: string; type: NotionPropType };
+
+// Logical fields the sync reads/writes. The first group comes from RaindropItem,
+// the second is sync bookkeeping that lives only in Notion.
+export type MappedField =
+  | 'title'
+  | 'link'
+  | 'tags'
+  | 'excerpt'
+  | 'note'
+  | 'domain'
+  | 'collection'
+  | 'created'
+  | 'highlightsCount'
+  | 'type'
+  | 'important'
+  | 'reminder'
+  | 'broken'
+  | 'creator'
+  | 'cover'
+  | 'raindropId'
+  | 'raindropLastUpdate'
+  | 'syncedAt'
+  | 'status'
+  | 'lock'
+  | 'lockedFields'
+  | 'deleted'
+  | 'deleteDetectedAt'
+  | 'conflict'
+  | 'canonicalUrl'
+  | 'duplicateOf';
+
+// null = field is not synced to this database
+export type PropertyMapping = Record<MappedField, PropertySpec | null>;
+
+export const DEFAULT_MAPPING: PropertyMapping = {
+  title: { name: 'Title', type: 'title' },
+  link: { name: 'URL', type: 'url' },
+  tags: { name: 'Tags', type: 'multi_select' },
+  excerpt: { name: 'Excerpt', type: 'rich_text' },
+  note: { name: 'Notes', type: 'rich_text' },
+  domain: { name: 'Site', type: 'rich_text' },
+  collection: { name: 'Collection', type: 'rich_text' },
+  created: { name: 'Created', type: 'date' },
+  highlightsCount: { name: 'Highlights Count', type: 'number' },
+  // off by default; opt in with e.g. "important": "Favorite"
+  type: null,
+  important: null,
+  reminder: null,
+  broken: null,
+  creator: null,
+  cover: null,
+  raindropId: { name: 'Raindrop ID', type: 'number' },
+  raindropLastUpdate: { name: 'Raindrop LastUpdate', type: 'date' },
+  syncedAt: { name: 'Synced At', type: 'date' },
+  status: { name: 'Status', type: 'select' },
+  lock: { name: 'Lock', type: 'checkbox' },
+  lockedFields: { name: 'Locked Fields', type: 'multi_select' },
+  deleted: { name: 'Deleted (Raindrop)', type: 'checkbox' },
+  deleteDetectedAt: { name: 'Delete Detected At', type: 'date' },
+  conflict: { name: 'Sync Conflict', type: 'checkbox' },
+  canonicalUrl: { name: 'Canonical URL', type: 'url' },
+  duplicateOf: { name: 'Duplicate Of', type: 'relation' }
+};
+
+// Content fields may use any of these types; bookkeeping fields are fixed.
+const ALLOWED_TYPES: Record<MappedField, NotionPropType[]> = {
+  title: ['title', 'rich_text'],
+  link: ['url', 'rich_text'],
+  tags: ['multi_select', 'select', 'rich_text'],
+  excerpt: ['rich_text', 'title'],
+  note: ['rich_text', 'title'],
+  domain: ['rich_text', 'select', 'url'],
+  collection: ['rich_text', 'select', 'multi_select', 'relation'],
+  created: ['date', 'rich_text'],
+  highlightsCount: ['number'],
+  type: ['select', 'rich_text', 'multi_select'],
+  important: ['checkbox'],
+  reminder: ['date', 'rich_text'],
+  broken: ['checkbox'],
+  creator: ['rich_text', 'select'],
+  cover: ['files'],
+  raindropId: ['number'],
+  raindropLastUpdate: ['date'],
+  syncedAt: ['date'],
+  status: ['select'],
+  lock: ['checkbox'],
+  lockedFields: ['multi_select'],
+  deleted: ['checkbox'],
+  deleteDetectedAt: ['date'],
+  conflict: ['checkbox'],
+  canonicalUrl: ['url', 'rich_text'],
+  duplicateOf: ['relation']
+};
+
+// Fields the sync cannot work without
+const REQUIRED: MappedField[] = ['raindropId'];
+
+/**
+ * Merge a partial mapping over the defaults and validate it.
+ * Accepts `{ "collection": { "name": "Folder", "type": "select" }, "excerpt": null }`.
+ * A bare string keeps the default type and only renames the property.
+ */
+export function parseMapping(raw: unknown): PropertyMapping {
+  if (raw == null) return { ...DEFAULT_MAPPING };
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Property mapping must be a JSON object');
+  }
+
+  const out: PropertyMapping = { ...DEFAULT_MAPPING };
+  for (const [key, val] of Object.entries(raw as Record<string, unknown>)) {
+    if (!(key in DEFAULT_MAPPING)) {
+      throw new Error(`Property mapping: unknown field "${key}"`);
+    }
+    const field = key as MappedField;
+
+    if (val === null) {
+      out[field] = null;
+      continue;
+    }
+    // fields that are off by default take their first allowed type
+    const defaultType = DEFAULT_MAPPING[field]?.type ?? ALLOWED_TYPES[field][0];
+    const spec: PropertySpec =
+      typeof val === 'string'
+        ? { name: val, type: defaultType }
+        : {
+            name: (val as any)?.name,
+            type: (val as any)?.type ?? defaultType
+          };
+
+    if (typeof spec.name !== 'string' || !spec.name) {
+      throw new Error(`Property mapping: "${field}" needs a property name`);
+    }
+    if (!ALLOWED_TYPES[field].includes(spec.type)) {
+      throw new Error(
+        `Property mapping: "${field}" cannot be of type "${spec.type}" (allowed: ${ALLOWED_TYPES[field].join(', ')})`
+      );
+    }
+    out[field] = spec;
+  }
+
+  for (const field of REQUIRED) {
+    if (!out[field]) throw new Error(`Property mapping: "${field}" is required`);
+  }
+  return out;
+}
+
+/**
+ * Load the mapping from NOTION_MAPPING (inline JSON) or NOTION_MAPPING_FILE (path).
+ * Falls back to DEFAULT_MAPPING when neither is set.
+ */
+export function loadMappingFromEnv(): PropertyMapping {
+  const inline = process.env.NOTION_MAPPING;
+  if (inline) return parseMapping(JSON.parse(inline));
+
+  const file = process.env.NOTION_MAPPING_FILE;
+  if (file) return parseMapping(JSON.parse(readFileSync(file, 'utf8')));
+
+  return { ...DEFAULT_MAPPING };
+}
+
+let cachedMapping: PropertyMapping | undefined;
+export function getMapping(): PropertyMapping {
+  if (!cachedMapping) cachedMapping = loadMappingFromEnv();
+  return cachedMapping;
+}
+
+// ------- value encoding -------
+export type PropValue = string | string[] | number | boolean | null | undefined;
+
+function textNodes(s: string) {
+  return s ? plainRichText(s) : [];
+}
+function asString(v: PropValue): string {
+  if (v == null) return '';
+  if (Array.isArray(v)) return v.join(', ');
+  return String(v);
+}
+function asList(v: PropValue): string[] {
+  if (v == null || v === '') return [];
+  return Array.isArray(v) ? v : [String(v)];
+}
+
+/** Turn a plain value into the Notion property payload for the given type. */
+export function encodeProperty(type: NotionPropType, value: PropValue): any {
+  switch (type) {
+    case 'title':
+      return { title: textNodes(asString(value)) };
+    case 'rich_text':
+      return { rich_text: textNodes(asString(value)) };
+    case 'select': {
+      const name = asList(value)[0];
+      return { select: name ? { name } : null };
+    }
+    case 'multi_select':
+      return { multi_select: asList(value).slice(0, 50).map((name) => ({ name })) };
+    case 'url':
+      return { url: asString(value) || null };
+    case 'date': {
+      const start = asString(value);
+      return { date: start ? { start } : null };
+    }
+    case 'number':
+      return { number: typeof value === 'number' ? value : value == null ? null : Number(value) };
+    case 'checkbox':
+      return { checkbox: !!value };
+    case 'relation':
+      return { relation: asList(value).map((id) => ({ id })) };
+    case 'files':
+      return {
+        files: asList(value).map((url) => ({
+          name: (url.split(/[?#]/)[0].split('/').pop() || 'cover').slice(0, 100),
+          type: 'external',
+          external: { url }
+        }))
+      };
+  }
+}
+
+/** Read a plain value back out of a Notion property object. */
+export function decodeProperty(type: NotionPropType, prop: any): PropValue {
+  if (!prop) return undefined;
+  switch (type) {
+    case 'title':
+    case 'rich_text':
+      return ((prop[type] ?? []) as any[]).map((t) => t?.plain_text ?? t?.text?.content ?? '').join('');
+    case 'select':
+      return prop.select?.name ?? undefined;
+    case 'multi_select':
+      return ((prop.multi_select ?? []) as any[]).map((o) => o.name as string);
+    case 'url':
+      return prop.url ?? undefined;
+    case 'date':
+      return prop.date?.start ?? undefined;
+    case 'number':
+      return typeof prop.number === 'number' ? prop.number : undefined;
+    case 'checkbox':
+      return !!prop.checkbox;
+    case 'relation':
+      return ((prop.relation ?? []) as any[]).map((r) => r.id as string);
+    case 'files':
+      return ((prop.files ?? []) as any[]).map((f) => (f.external?.url ?? f.file?.url ?? f.name) as string);
+  }
+}
+
+/** Set `field` on a properties object if the field is mapped; no-op otherwise. */
+export function setMapped(
+  props: Record<string, any>,
+  mapping: PropertyMapping,
+  field: MappedField,
+  value: PropValue
+) {
+  const spec = mapping[field];
+  if (!spec) return;
+  props[spec.name] = encodeProperty(spec.type, value);
+}
+
+/** Read `field` from a page's properties if mapped; undefined otherwise. */
+export function readMapped(props: Record<string, any>, mapping: PropertyMapping, field: MappedField): PropValue {
+  const spec = mapping[field];
+  if (!spec) return undefined;
+  return decodeProperty(spec.type, props?.[spec.name]);
+}
+
+/**
+ * Set a title/rich_text field from prebuilt rich text (e.g. converted Markdown).
+ * Other property types fall back to `plain`.
+ */
+export function setMappedRichText(
+  props: Record<string, any>,
+  mapping: PropertyMapping,
+  field: MappedField,
+  richText: any[],
+  plain: PropValue
+) {
+  const spec = mapping[field];
+  if (!spec) return;
+  props[spec.name] =
+    spec.type === 'title' || spec.type === 'rich_text'
+      ? { [spec.type]: richText }
+      : encodeProperty(spec.type, plain);
+}
+
+/** Like readMapped, but text properties come back as Markdown (annotations kept). */
+export function readMappedMarkdown(props: Record<string, any>, mapping: PropertyMapping, field: MappedField): PropValue {
+  const spec = mapping[field];
+  if (!spec) return undefined;
+  if (spec.type !== 'title' && spec.type !== 'rich_text') return readMapped(props, mapping, field);
+  const prop = props?.[spec.name];
+  return prop ? richTextToMarkdown(prop[spec.type] ?? []) : undefined;
+}
+
+// ------- change detection -------
+// Written on every update; not content, so they never count as a change
+export const BOOKKEEPING_FIELDS: MappedField[] = ['raindropLastUpdate', 'syncedAt'];
+
+/**
+ * Normalize a property (our payload or Notion's response, both shapes work)
+ * so unchanged values compare equal: text as Markdown, tags and relations
+ * order-free, dates to the minute.
+ */
+export function comparableProperty(type: NotionPropType, prop: any): string {
+  switch (type) {
+    case 'title':
+    case 'rich_text':
+      return richTextToMarkdown(prop?.[type] ?? []);
+    case 'multi_select':
+    case 'relation':
+      return ((decodeProperty(type, prop) as string[] | undefined) ?? [])
+        .map((v) => (type === 'relation' ? v.replace(/-/g, '') : v))
+        .sort()
+        .join('\n');
+    case 'date': {
+      const start = decodeProperty(type, prop) as string | undefined;
+      const ms = start ? new Date(start).getTime() : NaN;
+      return Number.isFinite(ms) ? String(Math.floor(ms / 60_000)) : start ?? '';
+    }
+    default:
+      return JSON.stringify(decodeProperty(type, prop) ?? null);
+  }
+}
+
+/** Content fields whose value in `next` differs from the page's current properties. */
+export function changedFields(
+  mapping: PropertyMapping,
+  next: Record<string, any>,
+  current: Record<string, any>
+): MappedField[] {
+  return (Object.keys(mapping) as MappedField[]).filter((field) => {
+    const spec = mapping[field];
+    if (!spec || BOOKKEEPING_FIELDS.includes(field) || next[spec.name] === undefined) return false;
+    return comparableProperty(spec.type, next[spec.name]) !== comparableProperty(spec.type, current?.[spec.name]);
+  });
+}
+
+// ------- per-field locks -------
+/**
+ * Fields named in the page's "Locked Fields" multi-select. Options may be the
+ * Notion property name ("Notes") or the field key ("note"), any case.
+ */
+export function readLockedFields(props: Record<string, any>, mapping: PropertyMapping): MappedField[] {
+  const names = readMapped(props, mapping, 'lockedFields');
+  if (!Array.isArray(names) || !names.length) return [];
+  const wanted = new Set(names.map((n) => n.trim().toLowerCase()));
+  return (Object.keys(mapping) as MappedField[]).filter(
+    (f) => wanted.has(f.toLowerCase()) || (mapping[f] && wanted.has(mapping[f]!.name.toLowerCase()))
+  );
+}
+
+/** Remove locked fields from a properties payload (in place). */
+export function dropLocked(props: Record<string, any>, mapping: PropertyMapping, locked?: MappedField[]) {
+  for (const field of locked ?? []) {
+    const spec = mapping[field];
+    if (spec) delete props[spec.name];
+  }
+  return props;
+}
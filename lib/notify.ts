@@ -0,0 +1,316 @@
+// lib/notify.ts
+// Alerts for runs that fail, keep failing, or are about to archive a lot of
+// pages. Channels come from env (generic webhook, Slack, Discord, SMTP); the
+// state store (or, without one, the Sync Log) dedupes so one persistent error
+// doesn't page every 5 minutes.
+import { createHash } from 'node:crypto';
+
+import { sendMail } from './smtp.js';
+import { getStateStore, type StateStore } from './state.js';
+import { recentRuns, lastRunAlerted, setRunAlerts, type RunKind, type RunRecord } from './runlog.js';
+
+export type Alert = {
+  key: string;                 // dedup key: same key, same alert
+  level: 'error' | 'warning' | 'recovered';
+  title: string;
+  text: string;
+};
+
+export type NotifyChannel = {
+  name: string;
+  send(alert: Alert): Promise<void>;
+};
+
+function envInt(name: string, def: number) {
+  const v = process.env[name];
+  const n = v ? parseInt(v, 10) : NaN;
+  return Number.isFinite(n) ? n : def;
+}
+
+const SOURCE = 'raindrop-notion';
+const DISCORD_MAX = 2000;
+const LEVEL_ICON: Record<Alert['level'], string> = { error: '🔴', warning: '🟠', recovered: '🟢' };
+
+// ------- channels -------
+async function postJson(url: string, body: unknown) {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  if (!res.ok) throw new Error(`${res.status} ${(await res.text()).slice(0, 200)}`);
+}
+
+export function webhookChannel(url: string): NotifyChannel {
+  return { name: 'webhook', send: (a) => postJson(url, { source: SOURCE, ...a, at: new Date().toISOString() }) };
+}
+
+export function slackChannel(url: string): NotifyChannel {
+  return { name: 'slack', send: (a) => postJson(url, { text: `${LEVEL_ICON[a.level]} *${a.title}*\n${a.text}` }) };
+}
+
+export function discordChannel(url: string): NotifyChannel {
+  return {
+    name: 'discord',
+    send: (a) => postJson(url, { content: `${LEVEL_ICON[a.level]} **${a.title}**\n${a.text}`.slice(0, DISCORD_MAX) })
+  };
+}
+
+export function emailChannel(smtpUrl: string, from: string, to: string[]): NotifyChannel {
+  return {
+    name: 'email',
+    send: (a) => sendMail(smtpUrl, { from, to, subject: `[${SOURCE}] ${a.title}`, text: a.text })
+  };
+}
+
+/** Every channel configured through NOTIFY_* env vars. */
+export function channelsFromEnv(): NotifyChannel[] {
+  const env = process.env;
+  const out: NotifyChannel[] = [];
+  if (env.NOTIFY_WEBHOOK_URL) out.push(webhookChannel(env.NOTIFY_WEBHOOK_URL));
+  if (env.NOTIFY_SLACK_WEBHOOK_URL) out.push(slackChannel(env.NOTIFY_SLACK_WEBHOOK_URL));
+  if (env.NOTIFY_DISCORD_WEBHOOK_URL) out.push(discordChannel(env.NOTIFY_DISCORD_WEBHOOK_URL));
+  if (env.NOTIFY_SMTP_URL) {
+    const to = (env.NOTIFY_EMAIL_TO ?? '').split(',').map((s) => s.trim()).filter(Boolean);
+    if (!to.length) throw new Error('NOTIFY_SMTP_URL needs NOTIFY_EMAIL_TO');
+    out.push(emailChannel(env.NOTIFY_SMTP_URL, env.NOTIFY_EMAIL_FROM || to[0], to));
+  }
+  return out;
+}
+
+// ------- memory -------
+type SentMark = { at: string; suppressed: number };
+type FailureStreak = { count: number; since: string; alerted: boolean };
+
+// What was sent when, and the current failure streak
+type NotifyMemory = {
+  kind: 'store' | 'sync-log' | 'none';
+  lastSent(key: string): Promise<SentMark | undefined>;
+  sent(key: string, mark: SentMark): Promise<void>;
+  streak(kind: RunKind): Promise<FailureStreak | undefined>;
+  setStreak(kind: RunKind, streak: FailureStreak | undefined): Promise<void>;
+  flush(): Promise<void>;
+};
+
+const NO_MEMORY_WARNING =
+  'STATE_STORE is none and the run has no Sync Log row: alerts are not deduplicated and the streak alert cannot fire';
+
+function storeMemory(store: StateStore): NotifyMemory {
+  const sentKey = (key: string) => `notify:sent:${key}`;
+  const streakKey = (kind: RunKind) => `notify:streak:${kind}`;
+  return {
+    kind: 'store',
+    lastSent: (key) => store.get<SentMark>(sentKey(key)),
+    sent: (key, mark) => store.set(sentKey(key), mark),
+    streak: (kind) => store.get<FailureStreak>(streakKey(kind)),
+    async setStreak(kind, streak) {
+      if (streak) return store.set(streakKey(kind), streak);
+      await store.delete(streakKey(kind));
+      await store.delete(sentKey(`${kind}:streak`));
+    },
+    flush: async () => undefined
+  };
+}
+
+/**
+ * Without a state store: each run's Sync Log row lists the alerts it sent
+ * (written by flush), and the streak is counted from the rows themselves.
+ * Repeats are not counted here.
+ */
+function syncLogMemory(databaseId: string, pageId: string): NotifyMemory {
+  const keys: string[] = [];
+  return {
+    kind: 'sync-log',
+    async lastSent(key) {
+      const run = await lastRunAlerted(databaseId, key);
+      return run ? { at: run.startedAt, suppressed: 0 } : undefined;
+    },
+    async sent(key, mark) {
+      if (!mark.suppressed && !keys.includes(key)) keys.push(key);
+    },
+    async streak(kind) {
+      // failed runs since the last ok one; partial runs neither count nor break it
+      const failed = [];
+      for (const run of await recentRuns(databaseId, kind)) {
+        if (run.pageId === pageId || run.status === 'partial') continue;
+        if (run.status !== 'failed') break;
+        failed.push(run);
+      }
+      if (!failed.length) return undefined;
+      return {
+        count: failed.length,
+        since: failed[failed.length - 1].startedAt,
+        alerted: failed.some((r) => r.alerts.includes(`${kind}:streak`))
+      };
+    },
+    setStreak: async () => undefined,
+    async flush() {
+      if (keys.length) await setRunAlerts(pageId, keys);
+    }
+  };
+}
+
+const noMemory: NotifyMemory = {
+  kind: 'none',
+  lastSent: async () => undefined,
+  sent: async () => undefined,
+  streak: async () => undefined,
+  setStreak: async () => undefined,
+  flush: async () => undefined
+};
+
+function notifyMemory(store: StateStore, logPageId?: string): NotifyMemory {
+  if (store.kind !== 'none') return storeMemory(store);
+  const databaseId = process.env.SYNC_LOG_DATABASE_ID;
+  return databaseId && logPageId ? syncLogMemory(databaseId, logPageId) : noMemory;
+}
+
+// ------- sending -------
+export type NotifyResult = {
+  key: string;
+  sent: string[];              // channels that accepted the alert
+  suppressed?: boolean;        // same key within NOTIFY_DEDUP_MINUTES
+  errors?: string[];
+  warning?: string;            // nothing to dedupe against; see NO_MEMORY_WARNING
+};
+
+/**
+ * Send an alert to every channel unless the same key went out within the
+ * dedup window. Channel failures are returned, never thrown.
+ */
+export async function sendAlert(
+  alert: Alert,
+  {
+    store = getStateStore(),
+    channels,
+    memory = notifyMemory(store)
+  }: { store?: StateStore; channels?: NotifyChannel[]; memory?: NotifyMemory } = {}
+): Promise<NotifyResult | undefined> {
+  let targets: NotifyChannel[];
+  try {
+    targets = channels ?? channelsFromEnv();
+  } catch (e: any) {
+    return { key: alert.key, sent: [], errors: [e?.message || 'Error'] };
+  }
+  if (!targets.length) return undefined;
+
+  const windowMs = envInt('NOTIFY_DEDUP_MINUTES', 60) * 60_000;
+  const mark = await memory.lastSent(alert.key).catch(() => undefined);
+  if (alert.level !== 'recovered' && mark && Date.now() - new Date(mark.at).getTime() < windowMs) {
+    await memory.sent(alert.key, { ...mark, suppressed: mark.suppressed + 1 }).catch(() => undefined);
+    return { key: alert.key, sent: [], suppressed: true };
+  }
+
+  // tell the reader how many repeats the window swallowed
+  const text = mark?.suppressed ? `${alert.text}\n(repeated ${mark.suppressed}× since the last alert)` : alert.text;
+  const result: NotifyResult = { key: alert.key, sent: [] };
+  const errors: string[] = [];
+  for (const channel of targets) {
+    try {
+      await channel.send({ ...alert, text });
+      result.sent.push(channel.name);
+    } catch (e: any) {
+      errors.push(`${channel.name}: ${e?.message || 'Error'}`);
+    }
+  }
+  if (errors.length) result.errors = errors;
+  if (result.sent.length) {
+    await memory.sent(alert.key, { at: new Date().toISOString(), suppressed: 0 }).catch(() => undefined);
+  }
+  if (memory.kind === 'none') result.warning = NO_MEMORY_WARNING;
+  return result;
+}
+
+// ------- run alerts -------
+// digits vary between runs (IDs, counts); the rest identifies "the same error"
+function errorSignature(errors: string[]) {
+  const normalized = [...new Set(errors.map((e) => e.replace(/\d+/g, '#')))].sort().join('\n');
+  return createHash('sha1').update(normalized).digest('hex').slice(0, 12);
+}
+
+function runText(record: RunRecord) {
+  const counts = Object.entries(record.counts).map(([k, n]) => `${k} ${n}`).join(' · ');
+  return [
+    `${record.kind} (${record.trigger}${record.dryRun ? ', dry run' : ''}) ${record.status} at ${record.startedAt}`,
+    counts,
+    ...record.errors.slice(0, 10),
+    record.errors.length > 10 ? `… ${record.errors.length - 10} more` : ''
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * After each run: alert on a failed or partial run, again once it has failed
+ * NOTIFY_CONSECUTIVE_FAILURES times in a row, and once when it recovers.
+ * `logPageId` is the run's Sync Log row, used when there's no state store.
+ */
+export async function notifyRun(
+  record: RunRecord,
+  { store = getStateStore(), logPageId }: { store?: StateStore; logPageId?: string } = {}
+) {
+  const results: NotifyResult[] = [];
+  // dry runs change nothing and are usually someone at a terminal
+  if (record.dryRun) return results;
+  const memory = notifyMemory(store, logPageId);
+  try {
+    await alertRun(record, memory, results);
+  } finally {
+    await memory.flush().catch(() => undefined);
+  }
+  return results;
+}
+
+async function alertRun(record: RunRecord, memory: NotifyMemory, results: NotifyResult[]) {
+  const streak = await memory.streak(record.kind).catch(() => undefined);
+
+  if (record.status === 'ok') {
+    if (streak?.alerted) {
+      const r = await sendAlert(
+        {
+          key: `${record.kind}:recovered`,
+          level: 'recovered',
+          title: `${record.kind} recovered`,
+          text: `${record.kind} succeeded again after ${streak.count} failed run(s) since ${streak.since}.`
+        },
+        { memory }
+      );
+      if (r) results.push(r);
+    }
+    if (streak) await memory.setStreak(record.kind, undefined).catch(() => undefined);
+    return;
+  }
+
+  const r = await sendAlert(
+    {
+      key: `${record.kind}:${record.status}:${errorSignature(record.errors)}`,
+      level: record.status === 'failed' ? 'error' : 'warning',
+      title: `${record.kind} ${record.status === 'failed' ? 'failed' : 'finished with errors'}`,
+      text: runText(record)
+    },
+    { memory }
+  );
+  if (r) results.push(r);
+
+  // a partial run still did most of its work; only failed runs make a streak
+  if (record.status !== 'failed') return;
+  const next: FailureStreak = {
+    count: (streak?.count ?? 0) + 1,
+    since: streak?.since ?? record.startedAt,
+    alerted: !!streak?.alerted
+  };
+  if (next.count >= envInt('NOTIFY_CONSECUTIVE_FAILURES', 3)) {
+    const s = await sendAlert(
+      {
+        key: `${record.kind}:streak`,
+        level: 'error',
+        title: `${record.kind} failed ${next.count} times in a row`,
+        text: `Failing since ${next.since}. Last run:\n${runText(record)}`
+      },
+      { memory }
+    );
+    if (s) results.push(s);
+    if (s?.sent.length) next.alerted = true;
+  }
+  await memory.setStreak(record.kind, next).catch(() => undefined);
+}
@@ -1,12 +1,53 @@
 // lib/notion.ts
 import { Client } from '@notionhq/client';
 
-import type { RaindropItem } from './raindrop.js';
+import type { RaindropItem, RaindropHighlight } from './raindrop.js';
+import { notionFetch } from './http.js';
+import {
+  highlightBlock,
+  readHighlightMarker,
+  blockPlainText,
+  noteToggleBlock,
+  isNoteToggle,
+  NOTE_CONTINUED
+} from './blocks.js';
+import {
+  readMapped,
+  readMappedMarkdown,
+  setMapped,
+  setMappedRichText,
+  changedFields,
+  comparableProperty,
+  encodeProperty,
+  readLockedFields,
+  dropLocked,
+  BOOKKEEPING_FIELDS,
+  type MappedField,
+  type PropertyMapping,
+  type PropValue
+} from './mapping.js';
+import { applyTagRules, type TagResult, type TagRules } from './tags.js';
+import { coverUrl, faviconUrl } from './images.js';
+import { canonicalUrl } from './urls.js';
+import {
+  markdownToRichText,
+  markdownToBlocks,
+  plainRichText,
+  fitsProperty,
+  NOTION_RICH_TEXT_ITEMS
+} from './richtext.js';
 
 const NOTION_TOKEN = process.env.NOTION_API_TOKEN!;
-const NOTION_DB_ID = process.env.NOTION_DATABASE_ID!;
 
-export const notion = new Client({ auth: NOTION_TOKEN });
+// every SDK call goes through the shared limiter + retry layer
+export const notion = new Client({ auth: NOTION_TOKEN, fetch: notionFetch as any });
+
+// Which database a call goes to and how its columns are named
+export type NotionTarget = {
+  databaseId: string;
+  mapping: PropertyMapping;
+  collectionsDatabaseId?: string; // Collections DB when `collection` is a relation
+};
 
 // Public, version-safe alias for the query response type
 type NotionQueryResp = Awaited<
@@ -17,32 +58,39 @@ export type NotionRow = {
     pageId: string;
     raindropId: number;
     locked: boolean;
+    lockedFields: MappedField[];
     deletedFlag: boolean;
     deleteDetectedAt?: string;
+    status?: string;
+    collection?: PropValue;    // title, or Collections page IDs in relation mode
   };
   
   // paginate the whole DB and return Raindrop-linked rows
-  export async function listAllNotionRows(): Promise<NotionRow[]> {
+  export async function listAllNotionRows(target: NotionTarget): Promise<NotionRow[]> {
+    const m = target.mapping;
     const rows: NotionRow[] = [];
     let cursor: string | undefined = undefined;
   
     while (true) {
       const resp: NotionQueryResp = await notion.databases.query({
-        database_id: NOTION_DB_ID,
+        database_id: target.databaseId,
         page_size: 100,
         start_cursor: cursor
       });
       for (const page of resp.results as any[]) {
         const props = page.properties || {};
-        const idNum = props['Raindrop ID']?.number as number | undefined;
+        const idNum = readMapped(props, m, 'raindropId');
         if (typeof idNum !== 'number') continue;
   
         rows.push({
           pageId: page.id,
           raindropId: idNum,
-          locked: !!props['Lock']?.checkbox,
-          deletedFlag: !!props['Deleted (Raindrop)']?.checkbox,
-          deleteDetectedAt: props['Delete Detected At']?.date?.start as string | undefined
+          locked: !!readMapped(props, m, 'lock'),
+          lockedFields: readLockedFields(props, m),
+          deletedFlag: !!readMapped(props, m, 'deleted'),
+          deleteDetectedAt: readMapped(props, m, 'deleteDetectedAt') as string | undefined,
+          status: readMapped(props, m, 'status') as string | undefined,
+          collection: readMapped(props, m, 'collection')
         });
       }
       if (!resp.has_more) break;
@@ -51,47 +99,48 @@ export type NotionRow = {
     return rows;
   }
   
-  function dateOrNull(iso?: string) {
-    return iso ? { date: { start: iso } } : { date: null as any };
-  }
-  
-  // update just the Collection (rich text) and Synced At
-  export async function updateCollectionOnly(pageId: string, title?: string) {
-    const nowIso = new Date().toISOString();
-    await notion.pages.update({
-      page_id: pageId,
-      properties: {
-        'Collection': title ? { rich_text: [{ text: { content: title } }] } : { rich_text: [] },
-        'Synced At': dateOrNull(nowIso)
-      }
-    });
+  // update just the Collection (title, or the Collections page id in relation
+  // mode) and Synced At; false when Collection is locked
+  export async function updateCollectionOnly(
+    target: NotionTarget,
+    pageId: string,
+    value?: string,
+    lockedFields?: MappedField[]
+  ) {
+    const m = target.mapping;
+    if (lockedFields?.includes('collection')) return false;
+    const properties: Record<string, any> = {};
+    setMapped(properties, m, 'collection', m.collection?.type === 'relation' ? value ?? [] : value);
+    setMapped(properties, m, 'syncedAt', new Date().toISOString());
+    await notion.pages.update({ page_id: pageId, properties: dropLocked(properties, m, lockedFields) });
+    return true;
   }
   
   // set Deleted (Raindrop)=true and record timestamp
-  export async function markDeleteDetected(pageId: string, whenIso: string, setArchived = true) {
-    const nowIso = new Date().toISOString();
-    await notion.pages.update({
-      page_id: pageId,
-      properties: {
-        'Deleted (Raindrop)': { checkbox: true },
-        'Delete Detected At': dateOrNull(whenIso),
-        'Synced At': dateOrNull(nowIso),
-        ...(setArchived ? { 'Status': { select: { name: 'Archived' } } } : {})
-      }
-    });
+  export async function markDeleteDetected(
+    target: NotionTarget,
+    pageId: string,
+    whenIso: string,
+    setArchived = true,
+    lockedFields?: MappedField[]
+  ) {
+    const m = target.mapping;
+    const properties: Record<string, any> = {};
+    setMapped(properties, m, 'deleted', true);
+    setMapped(properties, m, 'deleteDetectedAt', whenIso);
+    setMapped(properties, m, 'syncedAt', new Date().toISOString());
+    if (setArchived) setMapped(properties, m, 'status', 'Archived');
+    await notion.pages.update({ page_id: pageId, properties: dropLocked(properties, m, lockedFields) });
   }
   
   // clear deleted flags (e.g., if an item resurfaced/moved back)
-  export async function clearDeleteFlags(pageId: string) {
-    const nowIso = new Date().toISOString();
-    await notion.pages.update({
-      page_id: pageId,
-      properties: {
-        'Deleted (Raindrop)': { checkbox: false },
-        'Delete Detected At': { date: null as any },
-        'Synced At': dateOrNull(nowIso)
-      }
-    });
+  export async function clearDeleteFlags(target: NotionTarget, pageId: string, lockedFields?: MappedField[]) {
+    const m = target.mapping;
+    const properties: Record<string, any> = {};
+    setMapped(properties, m, 'deleted', false);
+    setMapped(properties, m, 'deleteDetectedAt', null);
+    setMapped(properties, m, 'syncedAt', new Date().toISOString());
+    await notion.pages.update({ page_id: pageId, properties: dropLocked(properties, m, lockedFields) });
   }
   
   // archive the Notion page (Notion's "delete")
@@ -100,18 +149,138 @@ export type NotionRow = {
   }
   
 
+function raindropIdFilter(m: PropertyMapping, id: number) {
+  return { property: m.raindropId!.name, number: { equals: id } };
+}
+
+export type UpsertOpts = {
+  collectionTitle?: string;
+  highlights?: boolean;        // render highlights into the page body + count
+  tagRules?: TagRules;         // aliases, denylist, routing (default: tags pass through)
+  collectionPageId?: string;   // Collections DB page, when `collection` is a relation
+  current?: Record<string, any>; // page properties as last read; update sends only what differs
+  recordLastUpdate?: boolean;  // write Raindrop LastUpdate (and Synced At) even when nothing else changed
+  lockedFields?: MappedField[]; // never written; a locked note also keeps its body toggle
+  cover?: boolean;             // page cover (and Cover, if mapped) from the raindrop's cover
+  icon?: boolean;              // page icon from the site's favicon
+  currentImages?: PageImages;  // page cover/icon as last read
+  brokenStatus?: string;       // Status for broken links; unset leaves Status alone
+  templateBlocks?: any[];      // rendered page template (create only)
+  canonicalUrl?: boolean;      // write Canonical URL (duplicate detection on)
+};
 
+// Page-level cover and icon (not properties)
+export type PageImages = { cover?: any; icon?: any };
 
-function toMultiSelect(tags?: string[]) {
-  return (tags ?? []).slice(0, 50).map((t) => ({ name: t }));
+// Markdown note → rich text; notes too big for a property are truncated there
+// and written in full to the page body instead.
+function noteRichText(note: string): { richText: any[]; inBody: boolean } {
+  const richText = markdownToRichText(note);
+  if (fitsProperty(richText)) return { richText, inBody: false };
+  const head = note.slice(0, 2000 - NOTE_CONTINUED.length);
+  return { richText: plainRichText(head + NOTE_CONTINUED), inBody: true };
 }
 
+// Properties sourced from the Raindrop item (shared by create + update)
+function itemProperties(
+  m: PropertyMapping,
+  item: RaindropItem,
+  collTitle: string,
+  tagged: TagResult,
+  opts?: UpsertOpts
+) {
+  const properties: Record<string, any> = {};
+  setMapped(properties, m, 'title', item.title || 'Untitled');
+  setMapped(properties, m, 'link', item.link);
+  if (opts?.canonicalUrl) setMapped(properties, m, 'canonicalUrl', canonicalUrl(item.link));
+  setMapped(properties, m, 'tags', tagged.tags);
+  // excerpts are plain text in Raindrop, never Markdown
+  setMappedRichText(
+    properties, m, 'excerpt',
+    plainRichText(item.excerpt ?? '').slice(0, NOTION_RICH_TEXT_ITEMS),
+    item.excerpt
+  );
+  setMappedRichText(properties, m, 'note', noteRichText(item.note ?? '').richText, item.note);
+  setMapped(properties, m, 'domain', item.domain);
+  setMapped(
+    properties, m, 'collection',
+    m.collection?.type === 'relation' ? opts?.collectionPageId ?? [] : collTitle
+  );
+  setMapped(properties, m, 'created', item.created);
+  setMapped(properties, m, 'type', item.type);
+  setMapped(properties, m, 'important', item.important);
+  setMapped(properties, m, 'reminder', item.reminder ?? null);
+  setMapped(properties, m, 'broken', item.broken);
+  setMapped(properties, m, 'creator', item.creatorRef?.name);
+  if (opts?.cover && coverUrl(item)) setMapped(properties, m, 'cover', coverUrl(item));
+  if (opts?.highlights) setMapped(properties, m, 'highlightsCount', item.highlights?.length ?? 0);
+  setMapped(properties, m, 'raindropLastUpdate', item.lastUpdate || item.created);
+  setMapped(properties, m, 'syncedAt', new Date().toISOString());
+  return properties;
+}
+
+/**
+ * Status when a link breaks (→ brokenStatus) or recovers (brokenStatus → New).
+ * Archived rows and a locked Status are left alone.
+ */
+function brokenStatusChange(m: PropertyMapping, item: RaindropItem, opts?: UpsertOpts): string | undefined {
+  const broken = opts?.brokenStatus;
+  if (!broken || !m.status || !opts?.current || opts.lockedFields?.includes('status')) return undefined;
+  const now = readMapped(opts.current, m, 'status') as string | undefined;
+  if (item.broken && now !== broken && now !== 'Archived') return broken;
+  if (!item.broken && now === broken) return 'New';
+  return undefined;
+}
+
+// ------- cover & icon -------
+// Picked in Notion (uploads, emoji, Notion's own gallery and icons): never replaced
+function userChosen(image: any) {
+  if (image.type !== 'external') return true;
+  return /^https:\/\/(www\.notion\.so|images\.unsplash\.com)\//.test(image.external?.url ?? '');
+}
+
+/**
+ * Cover/icon payloads that differ from the page. Nothing is cleared when
+ * Raindrop has no image, and a locked Cover freezes both.
+ */
+function pageImages(item: RaindropItem, opts?: UpsertOpts, current?: PageImages): PageImages {
+  const out: PageImages = {};
+  if (opts?.lockedFields?.includes('cover')) return out;
+  const wanted = {
+    cover: opts?.cover ? coverUrl(item) : undefined,
+    icon: opts?.icon ? faviconUrl(item) : undefined
+  };
+  for (const key of ['cover', 'icon'] as const) {
+    const url = wanted[key];
+    const have = current?.[key];
+    if (!url || (have && (userChosen(have) || have.external?.url === url))) continue;
+    out[key] = { type: 'external', external: { url } };
+  }
+  return out;
+}
+
+// Same payload without the Cover property
+function withoutCoverProperty(m: PropertyMapping, properties: Record<string, any>) {
+  if (!m.cover || !(m.cover.name in properties)) return properties;
+  const { [m.cover.name]: _, ...rest } = properties;
+  return rest;
+}
+
+// Notion validates image URLs on write; one it rejects must not cost the item
+async function tolerateImages<T>(hasImages: boolean, write: (withImages: boolean) => Promise<T>): Promise<T> {
+  try {
+    return await write(true);
+  } catch (e: any) {
+    if (!hasImages || e?.code !== 'validation_error') throw e;
+    return write(false);
+  }
+}
 
 // ------- existence (single) -------
-export async function pageExists(raindropId: number) {
+export async function pageExists(target: NotionTarget, raindropId: number) {
   const response = await notion.databases.query({
-    database_id: NOTION_DB_ID,
-    filter: { property: 'Raindrop ID', number: { equals: raindropId } },
+    database_id: target.databaseId,
+    filter: raindropIdFilter(target.mapping, raindropId),
     page_size: 1
   });
   return response.results[0];
@@ -124,107 +293,464 @@ export type NotionFound = {
   pageId: string;
   raindropLastUpdate?: string; // from Notion "Raindrop LastUpdate"
   locked: boolean;             // from Notion "Lock" checkbox
+  lockedFields: MappedField[]; // from Notion "Locked Fields" multi-select
+  conflict: boolean;           // from Notion "Sync Conflict" checkbox
+  properties: Record<string, any>; // raw page properties, for change detection
+  images: PageImages;          // page cover and icon
 };
 
 export async function getPagesByRaindropIds(
+  target: NotionTarget,
   ids: number[]
 ): Promise<Map<number, NotionFound>> {
+  const m = target.mapping;
   const out = new Map<number, NotionFound>();
   for (let i = 0; i < ids.length; i += NOTION_QUERY_CHUNK) {
     const chunk = ids.slice(i, i + NOTION_QUERY_CHUNK);
     const filter =
       chunk.length === 1
-        ? { property: 'Raindrop ID', number: { equals: chunk[0] } }
-        : {
-            or: chunk.map((id) => ({
-              property: 'Raindrop ID',
-              number: { equals: id }
-            }))
-          };
+        ? raindropIdFilter(m, chunk[0])
+        : { or: chunk.map((id) => raindropIdFilter(m, id)) };
 
       const resp: NotionQueryResp = await notion.databases.query({
-      database_id: NOTION_DB_ID,
+      database_id: target.databaseId,
       filter,
       page_size: 100
     });
 
     for (const page of resp.results as any[]) {
       const props = page.properties || {};
-      const idProp = props['Raindrop ID']?.number as number | undefined;
+      const idProp = readMapped(props, m, 'raindropId');
       if (typeof idProp !== 'number') continue;
 
-      const lastUpd = props['Raindrop LastUpdate']?.date?.start as string | undefined;
-      const locked = !!props['Lock']?.checkbox;
+      const lastUpd = readMapped(props, m, 'raindropLastUpdate') as string | undefined;
+      const locked = !!readMapped(props, m, 'lock');
+      const conflict = !!readMapped(props, m, 'conflict');
 
       out.set(idProp, {
         pageId: page.id,
         raindropLastUpdate: lastUpd,
-        locked
+        locked,
+        lockedFields: readLockedFields(props, m),
+        conflict,
+        properties: props,
+        images: { cover: page.cover ?? undefined, icon: page.icon ?? undefined }
       });
     }
   }
   return out;
 }
 
+// ------- routed tags -------
+function routedType(property: string, tagged: TagResult) {
+  return tagged.routed.find((r) => r.route.property === property)!.route.type;
+}
+
+// relation targets: page title → id, per database
+const titlePropertyCache = new Map<string, string>();
+const relationPageCache = new Map<string, string>();
+
+/** Name of the database's title property (cached). */
+export async function titlePropertyOf(databaseId: string) {
+  if (!titlePropertyCache.has(databaseId)) {
+    const db: any = await notion.databases.retrieve({ database_id: databaseId });
+    const name = Object.entries(db?.properties ?? {}).find(([, p]: [string, any]) => p?.type === 'title')?.[0];
+    if (!name) throw new Error(`Database ${databaseId} has no title property`);
+    titlePropertyCache.set(databaseId, name);
+  }
+  return titlePropertyCache.get(databaseId)!;
+}
+
+/** Page IDs in `databaseId` whose title equals each value; missing ones are created when `create`. */
+export async function relationPageIds(databaseId: string, titles: string[], create = false) {
+  const ids: string[] = [];
+  for (const title of titles) {
+    const key = `${databaseId}:${title.toLowerCase()}`;
+    if (!relationPageCache.has(key)) {
+      const titleProp = await titlePropertyOf(databaseId);
+      const resp: NotionQueryResp = await notion.databases.query({
+        database_id: databaseId,
+        filter: { property: titleProp, title: { equals: title } },
+        page_size: 1
+      });
+      let id = (resp.results[0] as any)?.id as string | undefined;
+      if (!id && create) {
+        const page = await notion.pages.create({
+          parent: { database_id: databaseId },
+          properties: { [titleProp]: { title: plainRichText(title) } }
+        });
+        id = page.id;
+      }
+      if (!id) continue;
+      relationPageCache.set(key, id);
+    }
+    ids.push(relationPageCache.get(key)!);
+  }
+  return ids;
+}
+
+// Payloads for every configured route (empty routes clear their property)
+async function routedTagProperties(tagged: TagResult) {
+  const properties: Record<string, any> = {};
+  for (const { route, values } of tagged.routed) {
+    properties[route.property] =
+      route.type === 'relation'
+        ? encodeProperty('relation', await relationPageIds(route.database!, values, route.create))
+        : encodeProperty(route.type, values);
+  }
+  return properties;
+}
+
 // ------- create -------
 export async function createFromRaindrop(
+  target: NotionTarget,
   item: RaindropItem,
-  opts?: { collectionTitle?: string }
+  opts?: UpsertOpts
 ) {
+  const m = target.mapping;
   const collTitle = item.collection?.title || opts?.collectionTitle || '';
-  const nowIso = new Date().toISOString();
-  const raindropLast = item.lastUpdate || item.created;
-
-  return notion.pages.create({
-    parent: { database_id: NOTION_DB_ID },
-    properties: {
-      'Title': { title: [{ text: { content: item.title || 'Untitled' } }] },
-      'URL': { url: item.link },
-      'Tags': { multi_select: toMultiSelect(item.tags) },
-      'Excerpt': { rich_text: item.excerpt ? [{ text: { content: item.excerpt } }] : [] },
-      'Notes': { rich_text: item.note ? [{ text: { content: item.note } }] : [] },
-      'Site': { rich_text: item.domain ? [{ text: { content: item.domain } }] : [] },
-
-      // If your Notion "Collection" column is SELECT, replace with: { select: { name: collTitle } }
-      'Collection': collTitle ? { rich_text: [{ text: { content: collTitle } }] } : { rich_text: [] },
-
-      'Created': { date: { start: item.created } },
-      'Raindrop ID': { number: item._id },
-      'Status': { select: { name: 'New' } },
-
-      // new metadata fields
-      'Raindrop LastUpdate': dateOrNull(raindropLast),
-      'Synced At': dateOrNull(nowIso)
-    }
-  });
+
+  const tagged = applyTagRules(item.tags, opts?.tagRules);
+  const properties = {
+    ...itemProperties(m, item, collTitle, tagged, opts),
+    ...(await routedTagProperties(tagged))
+  };
+  setMapped(properties, m, 'raindropId', item._id);
+  setMapped(properties, m, 'status', item.broken && opts?.brokenStatus ? opts.brokenStatus : 'New');
+
+  // template first, so highlights and the note toggle land below its structure
+  const blocks = [
+    ...(opts?.templateBlocks ?? []),
+    ...(opts?.highlights ? (item.highlights ?? []).map(highlightBlock) : [])
+  ];
+  const images = pageImages(item, opts);
+  const hasImages = Object.keys(images).length > 0 || withoutCoverProperty(m, properties) !== properties;
+  const page = await tolerateImages(hasImages, (withImages) =>
+    notion.pages.create({
+      parent: { database_id: target.databaseId },
+      properties: withImages ? properties : withoutCoverProperty(m, properties),
+      ...(withImages ? images : {}),
+      children: blocks.slice(0, NOTION_APPEND_CHUNK)
+    })
+  );
+  await appendBlocks(page.id, blocks.slice(NOTION_APPEND_CHUNK));
+  if (m.note && noteRichText(item.note ?? '').inBody) await appendNoteToggle(page.id, item.note!);
+  return page;
 }
 
 // ------- update (upsert path) -------
+export type UpdateResult = {
+  changed: MappedField[];      // content fields that differed
+  routedChanged: string[];     // tag-route properties that differed
+  images: (keyof PageImages)[]; // page cover / icon replaced
+  propertiesWritten: boolean;
+  body: { appended: number; removed: number };
+};
+
 export async function updateFromRaindrop(
+  target: NotionTarget,
   pageId: string,
   item: RaindropItem,
-  opts?: { collectionTitle?: string }
-) {
+  opts?: UpsertOpts
+): Promise<UpdateResult> {
+  const m = target.mapping;
   const collTitle = item.collection?.title || opts?.collectionTitle || '';
-  const nowIso = new Date().toISOString();
-  const raindropLast = item.lastUpdate || item.created;
-
-  return notion.pages.update({
-    page_id: pageId,
-    properties: {
-      'Title': { title: [{ text: { content: item.title || 'Untitled' } }] },
-      'URL': { url: item.link },
-      'Tags': { multi_select: toMultiSelect(item.tags) },
-      'Excerpt': { rich_text: item.excerpt ? [{ text: { content: item.excerpt } }] : [] },
-      'Notes': { rich_text: item.note ? [{ text: { content: item.note } }] : [] },
-      'Site': { rich_text: item.domain ? [{ text: { content: item.domain } }] : [] },
-      'Collection': collTitle ? { rich_text: [{ text: { content: collTitle } }] } : { rich_text: [] },
-
-      // Leave Status alone (user workflow)
-
-      'Created': { date: { start: item.created } },
-      'Raindrop LastUpdate': dateOrNull(raindropLast),
-      'Synced At': dateOrNull(nowIso)
+  const tagged = applyTagRules(item.tags, opts?.tagRules);
+  const next = itemProperties(m, item, collTitle, tagged, opts);
+  const routed = opts?.lockedFields?.includes('tags') ? {} : await routedTagProperties(tagged);
+
+  // Without the current values every mapped field counts as changed
+  const changed = (
+    opts?.current
+      ? changedFields(m, next, opts.current)
+      : (Object.keys(m) as MappedField[]).filter(
+          (f) => m[f] && next[m[f]!.name] !== undefined && !BOOKKEEPING_FIELDS.includes(f)
+        )
+  ).filter((f) => !opts?.lockedFields?.includes(f));
+
+  // Leave Status alone (user workflow) except for the broken-link transition.
+  // Bookkeeping only rides along with real changes, unless reverse sync needs
+  // LastUpdate as its conflict baseline.
+  const properties: Record<string, any> = {};
+  for (const field of changed) properties[m[field]!.name] = next[m[field]!.name];
+  const status = brokenStatusChange(m, item, opts);
+  if (status) {
+    setMapped(properties, m, 'status', status);
+    changed.push('status');
+  }
+
+  // routed tag properties aren't mapped fields; they're diffed by name
+  const routedChanged = Object.keys(routed).filter(
+    (name) =>
+      !opts?.current ||
+      comparableProperty(routedType(name, tagged), routed[name]) !==
+        comparableProperty(routedType(name, tagged), opts.current[name])
+  );
+  for (const name of routedChanged) properties[name] = routed[name];
+
+  const images = pageImages(item, opts, opts?.currentImages);
+  const imagesChanged = Object.keys(images) as (keyof PageImages)[];
+
+  const anyChange = changed.length + routedChanged.length + imagesChanged.length > 0;
+  const bookkeeping = anyChange || !!(m.raindropLastUpdate && opts?.recordLastUpdate);
+  if (m.raindropLastUpdate && bookkeeping) {
+    properties[m.raindropLastUpdate.name] = next[m.raindropLastUpdate.name];
+  }
+  // any write bumps the page's last edit, so Synced At has to move with it or
+  // the reverse pass reads this page as edited in Notion
+  if (m.syncedAt && bookkeeping) properties[m.syncedAt.name] = next[m.syncedAt.name];
+
+  const propertiesWritten = Object.keys(properties).length > 0;
+  if (propertiesWritten || imagesChanged.length) {
+    const hasImages = imagesChanged.length > 0 || changed.includes('cover');
+    await tolerateImages(hasImages, (withImages) =>
+      notion.pages.update({
+        page_id: pageId,
+        properties: withImages ? properties : withoutCoverProperty(m, properties),
+        ...(withImages ? images : {})
+      })
+    );
+  }
+  const body = await syncBodyBlocks(target, pageId, item, opts);
+  return { changed, routedChanged, images: imagesChanged, propertiesWritten, body };
+}
+
+// ------- page body -------
+// Notion accepts at most 100 children per append/create call
+const NOTION_APPEND_CHUNK = 100;
+
+export async function appendBlocks(blockId: string, blocks: any[]) {
+  for (let i = 0; i < blocks.length; i += NOTION_APPEND_CHUNK) {
+    await notion.blocks.children.append({
+      block_id: blockId,
+      children: blocks.slice(i, i + NOTION_APPEND_CHUNK)
+    });
+  }
+}
+
+// top-level children of a page/block, all pages of results
+export async function listChildBlocks(blockId: string): Promise<any[]> {
+  const out: any[] = [];
+  let cursor: string | undefined = undefined;
+  while (true) {
+    const resp: any = await notion.blocks.children.list({
+      block_id: blockId,
+      page_size: 100,
+      start_cursor: cursor
+    });
+    out.push(...resp.results);
+    if (!resp.has_more) break;
+    cursor = resp.next_cursor ?? undefined;
+  }
+  return out;
+}
+
+async function appendNoteToggle(pageId: string, note: string) {
+  const { block, children } = noteToggleBlock(note);
+  const resp: any = await notion.blocks.children.append({ block_id: pageId, children: [block] });
+  const toggleId = resp.results?.[0]?.id;
+  if (toggleId) await appendBlocks(toggleId, children);
+}
+
+/**
+ * Bring the blocks we own in line with Raindrop, listing the page once:
+ *  - highlights (if enabled): append new ones, replace edited ones, delete removed ones
+ *  - the "Raindrop note" toggle: rewritten when an overflowing note changed, removed when it fits
+ * Blocks without our markers are user content and are left alone, and so is
+ * the note toggle while Notes is unmapped or locked. With nothing to manage
+ * the page isn't listed at all.
+ */
+export async function syncBodyBlocks(
+  target: NotionTarget,
+  pageId: string,
+  item: RaindropItem,
+  opts?: UpsertOpts
+) {
+  const m = target.mapping;
+  const manageNote = !!m.note && !opts?.lockedFields?.includes('note');
+  const noteInBody = manageNote && noteRichText(item.note ?? '').inBody;
+  // a toggle exists only if the note overflowed last time (unknown without the current row)
+  const hadToggle = !opts?.current || String(readMapped(opts.current, m, 'note') ?? '').endsWith(NOTE_CONTINUED);
+  if (!opts?.highlights && !noteInBody && !(manageNote && hadToggle)) return { appended: 0, removed: 0 };
+
+  const highlights: RaindropHighlight[] = opts?.highlights ? item.highlights ?? [] : [];
+  const existing = new Map<string, any>();
+  const noteToggles: any[] = [];
+  for (const block of await listChildBlocks(pageId)) {
+    const id = readHighlightMarker(block);
+    if (id && opts?.highlights) existing.set(id, block);
+    if (isNoteToggle(block)) noteToggles.push(block);
+  }
+
+  const toAppend: any[] = [];
+  let removed = 0;
+  for (const h of highlights) {
+    const wanted = highlightBlock(h);
+    const block = existing.get(h._id);
+    existing.delete(h._id);
+    if (block && block.type === wanted.type && blockPlainText(block) === blockPlainText(wanted)) continue;
+    if (block) {
+      await notion.blocks.delete({ block_id: block.id });
+      removed++;
     }
-  });
+    toAppend.push(wanted);
+  }
+
+  // an overflowing note keeps its toggle when unchanged (or when it isn't ours to manage)
+  let keepToggle = !manageNote;
+  if (noteInBody && noteToggles.length === 1) {
+    const have = await listChildBlocks(noteToggles[0].id);
+    const want = markdownToBlocks(item.note!);
+    keepToggle =
+      have.length === want.length &&
+      have.every((b, i) => b.type === want[i].type && blockPlainText(b) === blockPlainText(want[i]));
+  }
+
+  // whatever is left was deleted in Raindrop; stale note toggles are rebuilt
+  for (const block of [...existing.values(), ...(keepToggle ? [] : noteToggles)]) {
+    await notion.blocks.delete({ block_id: block.id });
+    removed++;
+  }
+
+  await appendBlocks(pageId, toAppend);
+  if (noteInBody && !keepToggle) await appendNoteToggle(pageId, item.note!);
+  return { appended: toAppend.length + (noteInBody && !keepToggle ? 1 : 0), removed };
+}
+
+// ------- reverse sync (Notion → Raindrop) -------
+export type NotionEditedPage = {
+  pageId: string;
+  raindropId: number;
+  lastEditedTime: string;      // Notion's own timestamp (minute precision)
+  syncedAt?: string;
+  raindropLastUpdate?: string;
+  conflict: boolean;
+  title?: string;
+  tags?: string[];
+  note?: string;
+  excerpt?: string;
+};
+
+// Notes as Markdown; a truncated note (full text in the body) reads as unknown
+function readNote(props: Record<string, any>, m: PropertyMapping): string | undefined {
+  const note = readMappedMarkdown(props, m, 'note') as string | undefined;
+  return note?.endsWith(NOTE_CONTINUED) ? undefined : note;
+}
+
+// pages touched since `sinceIso` that carry a Raindrop ID
+export async function listPagesEditedSince(
+  target: NotionTarget,
+  sinceIso: string
+): Promise<NotionEditedPage[]> {
+  const m = target.mapping;
+  const out: NotionEditedPage[] = [];
+  let cursor: string | undefined = undefined;
+
+  while (true) {
+    const resp: NotionQueryResp = await notion.databases.query({
+      database_id: target.databaseId,
+      filter: { timestamp: 'last_edited_time', last_edited_time: { on_or_after: sinceIso } },
+      page_size: 100,
+      start_cursor: cursor
+    });
+    for (const page of resp.results as any[]) {
+      const props = page.properties || {};
+      const idNum = readMapped(props, m, 'raindropId');
+      if (typeof idNum !== 'number') continue;
+
+      const tags = readMapped(props, m, 'tags');
+      out.push({
+        pageId: page.id,
+        raindropId: idNum,
+        lastEditedTime: page.last_edited_time,
+        syncedAt: readMapped(props, m, 'syncedAt') as string | undefined,
+        raindropLastUpdate: readMapped(props, m, 'raindropLastUpdate') as string | undefined,
+        conflict: !!readMapped(props, m, 'conflict'),
+        title: readMapped(props, m, 'title') as string | undefined,
+        tags: Array.isArray(tags) ? tags : typeof tags === 'string' && tags ? tags.split(/,\s*/) : undefined,
+        note: readNote(props, m),
+        excerpt: readMapped(props, m, 'excerpt') as string | undefined
+      });
+    }
+    if (!resp.has_more) break;
+    cursor = resp.next_cursor ?? undefined;
+  }
+  return out;
+}
+
+// after pushing to Raindrop: remember its new lastUpdate so the forward pass skips it
+export async function recordPushed(target: NotionTarget, pageId: string, raindropLastUpdate?: string) {
+  const m = target.mapping;
+  const properties: Record<string, any> = {};
+  if (raindropLastUpdate) setMapped(properties, m, 'raindropLastUpdate', raindropLastUpdate);
+  setMapped(properties, m, 'syncedAt', new Date().toISOString());
+  await notion.pages.update({ page_id: pageId, properties });
+}
+
+// both sides changed: tick "Sync Conflict" and hold the row until a human clears it
+export async function flagConflict(target: NotionTarget, pageId: string, raindropLastUpdate?: string) {
+  const m = target.mapping;
+  const properties: Record<string, any> = {};
+  setMapped(properties, m, 'conflict', true);
+  if (raindropLastUpdate) setMapped(properties, m, 'raindropLastUpdate', raindropLastUpdate);
+  setMapped(properties, m, 'syncedAt', new Date().toISOString());
+  await notion.pages.update({ page_id: pageId, properties });
+}
+
+// ------- Notion-first rows (URL pasted, no Raindrop ID yet) -------
+export type NotionUnlinkedPage = {
+  pageId: string;
+  link: string;
+  title?: string;
+  tags?: string[];
+  note?: string;
+};
+
+export async function listUnlinkedPages(target: NotionTarget): Promise<NotionUnlinkedPage[]> {
+  const m = target.mapping;
+  if (!m.link) return [];
+  const linkFilter =
+    m.link.type === 'url'
+      ? { property: m.link.name, url: { is_not_empty: true as const } }
+      : { property: m.link.name, rich_text: { is_not_empty: true as const } };
+
+  const out: NotionUnlinkedPage[] = [];
+  let cursor: string | undefined = undefined;
+  while (true) {
+    const resp: NotionQueryResp = await notion.databases.query({
+      database_id: target.databaseId,
+      filter: {
+        and: [linkFilter, { property: m.raindropId!.name, number: { is_empty: true as const } }]
+      },
+      page_size: 100,
+      start_cursor: cursor
+    });
+    for (const page of resp.results as any[]) {
+      const props = page.properties || {};
+      const link = readMapped(props, m, 'link');
+      if (typeof link !== 'string' || !link.trim()) continue;
+
+      const tags = readMapped(props, m, 'tags');
+      out.push({
+        pageId: page.id,
+        link: link.trim(),
+        title: (readMapped(props, m, 'title') as string | undefined) || undefined,
+        tags: Array.isArray(tags) ? tags : typeof tags === 'string' && tags ? tags.split(/,\s*/) : undefined,
+        note: readNote(props, m) || undefined
+      });
+    }
+    if (!resp.has_more) break;
+    cursor = resp.next_cursor ?? undefined;
+  }
+  return out;
+}
+
+// write the new raindrop's _id back so the row joins the normal upsert flow
+export async function linkPageToRaindrop(target: NotionTarget, pageId: string, item: RaindropItem) {
+  const m = target.mapping;
+  const properties: Record<string, any> = {};
+  setMapped(properties, m, 'raindropId', item._id);
+  setMapped(properties, m, 'raindropLastUpdate', item.lastUpdate || item.created);
+  setMapped(properties, m, 'syncedAt', new Date().toISOString());
+  await notion.pages.update({ page_id: pageId, properties });
 }
@@ -0,0 +1,169 @@
+// lib/pairs.ts
+import { readFileSync } from 'node:fs';
+
+import { getMapping, parseMapping } from './mapping.js';
+import { getTagRules, parseTagRules, type TagRules } from './tags.js';
+import { getPageTemplate, parsePageTemplate, type PageTemplate } from './templates.js';
+import type { NotionTarget } from './notion.js';
+
+// One Raindrop collection → one Notion database, with its own knobs.
+// collectionId '0' means "all collections" (Raindrop's special ID).
+export type SyncPair = NotionTarget & {
+  name: string;
+  collectionId: string;
+  lookbackHours: number;
+  overlapMinutes: number;
+  deleteMode: 'archive' | 'off';
+  deleteGraceHours: number;
+  maxDeletes: number;         // reconcile safety brake: deletes per run…
+  maxDeleteRatio: number;     // …and share of the database (0–1)
+  reverse: boolean;
+  conflictPolicy: ConflictPolicy;
+  createFromNotion: boolean;
+  highlights: boolean;
+  cover: boolean;
+  icon: boolean;
+  brokenStatus?: string;      // Status for broken links ('' / unset: Status untouched)
+  tagRules: TagRules;
+  template?: PageTemplate;    // body for newly created pages
+  duplicates: DuplicatePolicy;
+};
+
+// What to do with rows that share a canonical URL
+export type DuplicatePolicy = 'off' | 'link' | 'merge';
+const DUPLICATE_POLICIES: DuplicatePolicy[] = ['off', 'link', 'merge'];
+
+// Who wins when both Raindrop and Notion changed since the last sync
+export type ConflictPolicy = 'raindrop-wins' | 'notion-wins' | 'flag';
+const CONFLICT_POLICIES: ConflictPolicy[] = ['raindrop-wins', 'notion-wins', 'flag'];
+
+export const ALL_COLLECTIONS = '0';
+export const UNSORTED_COLLECTION = '-1';
+
+function envInt(name: string, def: number) {
+  const v = process.env[name];
+  const n = v ? parseInt(v, 10) : NaN;
+  return Number.isFinite(n) ? n : def;
+}
+function toDeleteMode(s: unknown): 'archive' | 'off' {
+  return String(s ?? 'archive').toLowerCase() === 'off' ? 'off' : 'archive';
+}
+function toBool(v: unknown) {
+  if (typeof v === 'boolean') return v;
+  if (v == null) return false;
+  return ['1', 'true', 'yes', 'on'].includes(String(v).toLowerCase());
+}
+function toConflictPolicy(v: unknown): ConflictPolicy {
+  const s = String(v ?? 'raindrop-wins').toLowerCase() as ConflictPolicy;
+  if (!CONFLICT_POLICIES.includes(s)) {
+    throw new Error(`Unknown conflict policy "${s}" (use ${CONFLICT_POLICIES.join(', ')})`);
+  }
+  return s;
+}
+function toDuplicatePolicy(v: unknown): DuplicatePolicy {
+  const s = String(v ?? 'off').toLowerCase() as DuplicatePolicy;
+  if (!DUPLICATE_POLICIES.includes(s)) {
+    throw new Error(`Unknown duplicate policy "${s}" (use ${DUPLICATE_POLICIES.join(', ')})`);
+  }
+  return s;
+}
+function toNum(v: unknown, def: number) {
+  const n = typeof v === 'number' ? v : typeof v === 'string' ? parseInt(v, 10) : NaN;
+  return Number.isFinite(n) ? n : def;
+}
+function toRatio(v: unknown, def: number) {
+  const n = typeof v === 'number' ? v : typeof v === 'string' && v.trim() ? Number(v) : NaN;
+  return Number.isFinite(n) && n >= 0 ? n : def;
+}
+
+/**
+ * Parse a list of pair definitions. Anything a pair leaves out falls back to the
+ * global env knobs (NOTION_DATABASE_ID, LOOKBACK_HOURS, DELETE_MODE, …).
+ */
+export function parsePairs(raw: unknown): SyncPair[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error('SYNC_PAIRS must be a non-empty JSON array');
+  }
+
+  const names = new Set<string>();
+  return raw.map((p: any, i: number) => {
+    if (!p || typeof p !== 'object') throw new Error(`SYNC_PAIRS[${i}] must be an object`);
+
+    const collectionId = p.collectionId != null ? String(p.collectionId) : '';
+    if (!collectionId) throw new Error(`SYNC_PAIRS[${i}]: missing collectionId`);
+
+    const databaseId = p.databaseId ?? process.env.NOTION_DATABASE_ID;
+    if (!databaseId) throw new Error(`SYNC_PAIRS[${i}]: missing databaseId`);
+
+    const mapping = p.mapping !== undefined ? parseMapping(p.mapping) : getMapping();
+    const collectionsDatabaseId = p.collectionsDatabaseId ?? process.env.COLLECTIONS_DATABASE_ID;
+    if (mapping.collection?.type === 'relation' && !collectionsDatabaseId) {
+      throw new Error(`SYNC_PAIRS[${i}]: a relation Collection needs collectionsDatabaseId (or COLLECTIONS_DATABASE_ID)`);
+    }
+
+    const name = String(p.name ?? `${collectionId}->${databaseId}`);
+    if (names.has(name)) throw new Error(`SYNC_PAIRS: duplicate pair name "${name}"`);
+    names.add(name);
+
+    return {
+      name,
+      collectionId,
+      databaseId,
+      mapping,
+      collectionsDatabaseId: mapping.collection?.type === 'relation' ? String(collectionsDatabaseId) : undefined,
+      lookbackHours: toNum(p.lookbackHours, envInt('LOOKBACK_HOURS', 48)),
+      overlapMinutes: toNum(p.overlapMinutes, envInt('OVERLAP_MINUTES', 15)),
+      deleteMode: toDeleteMode(p.deleteMode ?? process.env.DELETE_MODE),
+      deleteGraceHours: toNum(p.deleteGraceHours, envInt('DELETE_GRACE_HOURS', 24)),
+      maxDeletes: toNum(p.maxDeletes, envInt('RECONCILE_MAX_DELETES', 50)),
+      maxDeleteRatio: toRatio(p.maxDeleteRatio ?? process.env.RECONCILE_MAX_DELETE_RATIO, 0.2),
+      reverse: toBool(p.reverse ?? process.env.REVERSE_SYNC),
+      conflictPolicy: toConflictPolicy(p.conflictPolicy ?? process.env.CONFLICT_POLICY),
+      createFromNotion: toBool(p.createFromNotion ?? process.env.CREATE_FROM_NOTION),
+      highlights: toBool(p.highlights ?? process.env.SYNC_HIGHLIGHTS),
+      cover: toBool(p.cover ?? process.env.PAGE_COVER),
+      icon: toBool(p.icon ?? process.env.PAGE_ICON),
+      brokenStatus: String(p.brokenStatus ?? process.env.BROKEN_STATUS ?? '').trim() || undefined,
+      tagRules: p.tagRules !== undefined ? parseTagRules(p.tagRules) : getTagRules(),
+      template: p.template !== undefined ? parsePageTemplate(p.template) : getPageTemplate(),
+      duplicates: toDuplicatePolicy(p.duplicates ?? process.env.DUPLICATES)
+    };
+  });
+}
+
+/**
+ * Load pairs from SYNC_PAIRS (inline JSON) or SYNC_PAIRS_FILE (path).
+ * Without either, the legacy single RAINDROP_COLLECTION_ID → NOTION_DATABASE_ID pair is used.
+ */
+export function loadSyncPairs(): SyncPair[] {
+  const inline = process.env.SYNC_PAIRS;
+  if (inline) return parsePairs(JSON.parse(inline));
+
+  const file = process.env.SYNC_PAIRS_FILE;
+  if (file) return parsePairs(JSON.parse(readFileSync(file, 'utf8')));
+
+  const collectionId = process.env.RAINDROP_COLLECTION_ID;
+  if (!collectionId) throw new Error('Missing RAINDROP_COLLECTION_ID');
+  if (!process.env.NOTION_DATABASE_ID) throw new Error('Missing NOTION_DATABASE_ID');
+  return parsePairs([{ name: 'default', collectionId }]);
+}
+
+/** Pick pairs by name (comma-separated); empty selects all. */
+export function selectPairs(pairs: SyncPair[], names?: string): SyncPair[] {
+  if (!names) return pairs;
+  const wanted = new Set(names.split(',').map((s) => s.trim()).filter(Boolean));
+  const picked = pairs.filter((p) => wanted.has(p.name));
+  if (!picked.length) throw new Error(`No sync pair matches "${names}"`);
+  return picked;
+}
+
+/** Group pairs that write into the same Notion database (many-to-one routing). */
+export function groupPairsByDatabase(pairs: SyncPair[]): Map<string, SyncPair[]> {
+  const out = new Map<string, SyncPair[]>();
+  for (const p of pairs) {
+    const list = out.get(p.databaseId) ?? [];
+    list.push(p);
+    out.set(p.databaseId, list);
+  }
+  return out;
+}
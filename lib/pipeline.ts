@@ -0,0 +1,59 @@
+// lib/pipeline.ts
+// Bounded-concurrency worker pool with per-item failure capture and a
+// wall-clock deadline. Actual request pacing is left to lib/http.ts.
+
+export type PoolResult<T, R> = {
+  done: { item: T; result: R }[];
+  failed: { item: T; error: string }[];
+  remaining: T[];          // never started because the deadline hit
+  stoppedEarly: boolean;
+};
+
+export type PoolOpts = {
+  concurrency: number;
+  deadline?: number;       // epoch ms; no new items start after this
+};
+
+export async function runPool<T, R>(
+  items: T[],
+  worker: (item: T) => Promise<R>,
+  { concurrency, deadline }: PoolOpts
+): Promise<PoolResult<T, R>> {
+  const out: PoolResult<T, R> = { done: [], failed: [], remaining: [], stoppedEarly: false };
+  let next = 0;
+
+  async function lane() {
+    while (next < items.length) {
+      if (deadline && Date.now() >= deadline) {
+        out.stoppedEarly = true;
+        return;
+      }
+      const item = items[next++];
+      try {
+        out.done.push({ item, result: await worker(item) });
+      } catch (e: any) {
+        out.failed.push({ item, error: e?.message || 'Error' });
+      }
+    }
+  }
+
+  const lanes = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: lanes }, lane));
+  out.remaining = items.slice(next);
+  return out;
+}
+
+/**
+ * Deadline for a run that started at `startedAt`: the function budget
+ * (FUNCTION_TIME_BUDGET_MS, default 50s) minus a safety margin for the
+ * in-flight writes and the report (TIME_BUDGET_MARGIN_MS, default 8s).
+ */
+export function runDeadline(startedAt: number) {
+  const budget = parseInt(process.env.FUNCTION_TIME_BUDGET_MS || '', 10);
+  const margin = parseInt(process.env.TIME_BUDGET_MARGIN_MS || '', 10);
+  return (
+    startedAt +
+    (Number.isFinite(budget) ? budget : 50_000) -
+    (Number.isFinite(margin) ? margin : 8_000)
+  );
+}
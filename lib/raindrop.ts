@@ -1,4 +1,13 @@
 // lib/raindrop.ts
+import { raindropFetch } from './http.js';
+
+export type RaindropHighlight = {
+    _id: string;
+    text: string;
+    color?: string;
+    note?: string;
+    created?: string;     // ISO
+  };
 
 export type RaindropItem = {
     _id: number;
@@ -11,6 +20,14 @@ export type RaindropItem = {
     lastUpdate?: string;  // ISO
     domain?: string;
     collection?: { $id: number; title?: string };
+    highlights?: RaindropHighlight[];
+    type?: 'link' | 'article' | 'image' | 'video' | 'document' | 'audio';
+    important?: boolean;  // favorite
+    reminder?: string;    // ISO
+    broken?: boolean;     // Raindrop's link check failed
+    creatorRef?: { _id: number; name?: string };
+    cover?: string;       // preview image URL (may be empty)
+    media?: { link: string; type?: string }[];
   };
   
   // Read the token at call-time so it still works if dotenv loads later
@@ -40,7 +57,31 @@ export type RaindropItem = {
       created: it.created,
       lastUpdate: it.lastUpdate,
       domain: it.domain ?? hostnameFromUrl(it.link),
-      collection: it.collection
+      collection: it.collection,
+      type: it.type,
+      important: !!it.important,
+      reminder: it.reminder?.date || undefined,
+      broken: !!it.broken,
+      creatorRef: it.creatorRef?._id != null
+        ? { _id: it.creatorRef._id, name: it.creatorRef.fullName || it.creatorRef.name }
+        : undefined,
+      cover: typeof it.cover === 'string' ? it.cover : '',
+      media: Array.isArray(it.media)
+        ? it.media
+            .filter((m: any) => m && typeof m.link === 'string')
+            .map((m: any) => ({ link: m.link, type: m.type }))
+        : [],
+      highlights: Array.isArray(it.highlights)
+        ? it.highlights
+            .filter((h: any) => h && h._id && typeof h.text === 'string')
+            .map((h: any) => ({
+              _id: String(h._id),
+              text: h.text,
+              color: h.color,
+              note: typeof h.note === 'string' ? h.note : '',
+              created: h.created
+            }))
+        : []
     }));
   }
   
@@ -50,12 +91,21 @@ export type RaindropItem = {
     perPage = 50,
     page = 0
   ): Promise<RaindropItem[]> {
+    return (await fetchRaindropPage(collectionId, perPage, page)).items;
+  }
+
+  /** One page plus the collection's total `count`, to tell a full enumeration from a cut-short one. */
+  export async function fetchRaindropPage(
+    collectionId: string,
+    perPage = 50,
+    page = 0
+  ): Promise<{ items: RaindropItem[]; count?: number }> {
     const url = new URL(`https://api.raindrop.io/rest/v1/raindrops/${collectionId}`);
     url.searchParams.set('perpage', String(perPage));
     url.searchParams.set('page', String(page));
     url.searchParams.set('sort', '-created');
   
-    const res = await fetch(url.toString(), {
+    const res = await raindropFetch(url.toString(), {
       headers: { Authorization: `Bearer ${getRaindropToken()}` }
     });
   
@@ -65,7 +115,10 @@ export type RaindropItem = {
     }
   
     const data = await res.json();
-    return normalizeItems(data.items ?? []);
+    return {
+      items: normalizeItems(data.items ?? []),
+      count: typeof data.count === 'number' ? data.count : undefined
+    };
   }
   
   /**
@@ -81,13 +134,25 @@ export type RaindropItem = {
     page = 0,
     sort: '-created' | 'created' = '-created'
   ): Promise<RaindropItem[]> {
+    const { items } = await fetchRaindropsPage(collectionId, search, perPage, page, sort);
+    return items;
+  }
+
+  /** Same as fetchRaindropsBySearch, plus the total `count` of matching items. */
+  export async function fetchRaindropsPage(
+    collectionId: string,
+    search: string,
+    perPage = 50,
+    page = 0,
+    sort: '-created' | 'created' = '-created'
+  ): Promise<{ items: RaindropItem[]; count?: number }> {
     const url = new URL(`https://api.raindrop.io/rest/v1/raindrops/${collectionId}`);
     url.searchParams.set('perpage', String(perPage));
     url.searchParams.set('page', String(page));
     url.searchParams.set('sort', sort);
-    url.searchParams.set('search', search);
+    if (search) url.searchParams.set('search', search);
   
-    const res = await fetch(url.toString(), {
+    const res = await raindropFetch(url.toString(), {
       headers: { Authorization: `Bearer ${getRaindropToken()}` }
     });
   
@@ -97,12 +162,15 @@ export type RaindropItem = {
     }
   
     const data = await res.json();
-    return normalizeItems(data.items ?? []);
+    return {
+      items: normalizeItems(data.items ?? []),
+      count: typeof data.count === 'number' ? data.count : undefined
+    };
   }
   
   /** Fetch a collection's title once (items often only include {$id}). */
   export async function fetchCollectionTitle(collectionId: string): Promise<string | undefined> {
-    const res = await fetch(`https://api.raindrop.io/rest/v1/collection/${collectionId}`, {
+    const res = await raindropFetch(`https://api.raindrop.io/rest/v1/collection/${collectionId}`, {
       headers: { Authorization: `Bearer ${getRaindropToken()}` }
     });
     if (!res.ok) return undefined;
@@ -115,7 +183,7 @@ export type RaindropItem = {
     const key = String(id);
     if (collectionTitleCache.has(key)) return collectionTitleCache.get(key);
   
-    const res = await fetch(`https://api.raindrop.io/rest/v1/collection/${key}`, {
+    const res = await raindropFetch(`https://api.raindrop.io/rest/v1/collection/${key}`, {
       headers: { Authorization: `Bearer ${getRaindropToken()}` }
     });
     if (!res.ok) return undefined;
@@ -132,15 +200,23 @@ export type RaindropDetail = {
     removed?: boolean;
     collectionId?: number;
     lastUpdate?: string;
+    item?: RaindropItem;
   };
   
+  /**
+   * Look up one raindrop. Only a 404 (or a reply without the item) means it is
+   * gone; any other failure throws, so callers never mistake an outage for a delete.
+   */
   export async function fetchRaindropDetail(id: number): Promise<RaindropDetail> {
-    const res = await fetch(`https://api.raindrop.io/rest/v1/raindrop/${id}`, {
+    const res = await raindropFetch(`https://api.raindrop.io/rest/v1/raindrop/${id}`, {
       headers: { Authorization: `Bearer ${getRaindropToken()}` }
     });
   
     if (res.status === 404) return { exists: false };
-    if (!res.ok) return { exists: false }; // treat non-200 as missing for safety
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`Raindrop detail ${id} failed: ${res.status} ${text.slice(0, 200)}`);
+    }
   
     const data = await res.json();
     const item = data?.item;
@@ -150,7 +226,106 @@ export type RaindropDetail = {
       exists: true,
       removed: !!item.removed,
       collectionId: item.collectionId ?? item.collection?.$id,
-      lastUpdate: item.lastUpdate
+      lastUpdate: item.lastUpdate,
+      item: normalizeItems([item])[0]
     };
   }
-  
\ No newline at end of file
+
+export type RaindropPatch = Partial<Pick<RaindropItem, 'title' | 'link' | 'excerpt' | 'note' | 'tags'>>;
+
+/** Write fields back to a raindrop (PUT /raindrop/{id}); returns the updated item. */
+export async function updateRaindrop(id: number, patch: RaindropPatch): Promise<RaindropItem> {
+  const res = await raindropFetch(`https://api.raindrop.io/rest/v1/raindrop/${id}`, {
+    method: 'PUT',
+    headers: {
+      Authorization: `Bearer ${getRaindropToken()}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(patch)
+  });
+
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`Raindrop update failed: ${res.status} ${text}`);
+  }
+
+  const data = await res.json();
+  return normalizeItems([data?.item])[0];
+}
+
+/** Create a raindrop in a collection (POST /raindrop); Raindrop fills in anything left blank. */
+export async function createRaindrop(
+  collectionId: string | number,
+  fields: RaindropPatch & { link: string }
+): Promise<RaindropItem> {
+  const res = await raindropFetch('https://api.raindrop.io/rest/v1/raindrop', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${getRaindropToken()}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      ...fields,
+      collection: { $id: Number(collectionId) },
+      pleaseParse: {}
+    })
+  });
+
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`Raindrop create failed: ${res.status} ${text}`);
+  }
+
+  const data = await res.json();
+  return normalizeItems([data?.item])[0];
+}
+
+export type RaindropUser = { id: number; name?: string; pro: boolean };
+
+/** Current user (GET /user) — the cheapest call that proves the token works. */
+export async function fetchRaindropUser(): Promise<RaindropUser> {
+  const res = await raindropFetch('https://api.raindrop.io/rest/v1/user', {
+    headers: { Authorization: `Bearer ${getRaindropToken()}` }
+  });
+
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`Raindrop user lookup failed: ${res.status} ${text}`);
+  }
+
+  const data = await res.json();
+  return { id: data?.user?._id, name: data?.user?.fullName, pro: !!data?.user?.pro };
+}
+
+export type RaindropCollection = {
+  _id: number;
+  title: string;
+  parentId?: number;        // undefined for root collections
+  color?: string;
+  count: number;
+};
+
+/** Every collection, root and nested (GET /collections + /collections/childrens). */
+export async function fetchAllCollections(): Promise<RaindropCollection[]> {
+  const out: RaindropCollection[] = [];
+  for (const path of ['collections', 'collections/childrens']) {
+    const res = await raindropFetch(`https://api.raindrop.io/rest/v1/${path}`, {
+      headers: { Authorization: `Bearer ${getRaindropToken()}` }
+    });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`Raindrop ${path} failed: ${res.status} ${text}`);
+    }
+    const data = await res.json();
+    for (const c of (data?.items ?? []) as any[]) {
+      out.push({
+        _id: c._id,
+        title: c.title ?? 'Untitled',
+        parentId: c.parent?.$id,
+        color: c.color,
+        count: typeof c.count === 'number' ? c.count : 0
+      });
+    }
+  }
+  return out;
+}
@@ -0,0 +1,383 @@
+// lib/reconcile.ts
+// Nightly reconcile: detect moved and deleted raindrops per Notion database,
+// independent of the HTTP handler so the CLI can run it too.
+import {
+  fetchRaindropPage,
+  fetchRaindropDetail,
+  getCollectionTitleById,
+  type RaindropItem
+} from './raindrop.js';
+import {
+  listAllNotionRows,
+  updateCollectionOnly,
+  markDeleteDetected,
+  clearDeleteFlags,
+  archivePage,
+  type NotionRow
+} from './notion.js';
+import { collectionPageId } from './collections.js';
+import { dedupeDatabase } from './duplicates.js';
+import { sendAlert } from './notify.js';
+import { newRunId, saveJournal, journalEntry, type RestoreAction } from './restore.js';
+import type { MappedField, PropValue } from './mapping.js';
+import { loadSyncPairs, selectPairs, groupPairsByDatabase, type SyncPair } from './pairs.js';
+import { getHttpStats, resetHttpStats, setHttpDeadline } from './http.js';
+
+// helpers
+function envInt(name: string, def: number) {
+  const v = process.env[name];
+  const n = v ? parseInt(v, 10) : NaN;
+  return Number.isFinite(n) ? n : def;
+}
+function hoursSince(iso?: string) {
+  if (!iso) return Infinity;
+  const ms = Date.now() - new Date(iso).getTime();
+  return ms / 36e5;
+}
+
+// below this many deletes the ratio limit is ignored (2 of 8 rows isn't a mass delete)
+const BRAKE_RATIO_MIN_DELETES = 5;
+
+export type SafetyBrake = {
+  tripped: boolean;
+  reasons: string[];
+  deletes: number;             // rows this run would flag or archive
+  ratio: number;               // deletes / Notion rows
+  forced?: boolean;            // limits overridden with force
+};
+
+/**
+ * Decide whether the destructive phase may run. With anything to delete,
+ * incomplete enumeration always trips; the count / ratio limits can be
+ * overridden with `force`.
+ */
+function safetyBrake(
+  owner: SyncPair,
+  { deletes, rows, incomplete, force }: { deletes: number; rows: number; incomplete: string[]; force: boolean }
+): SafetyBrake {
+  const ratio = rows ? deletes / rows : 0;
+  const limits: string[] = [];
+  if (deletes > owner.maxDeletes) limits.push(`${deletes} deletes > maxDeletes ${owner.maxDeletes}`);
+  if (deletes >= BRAKE_RATIO_MIN_DELETES && ratio > owner.maxDeleteRatio) {
+    limits.push(`${Math.round(ratio * 100)}% of rows > maxDeleteRatio ${owner.maxDeleteRatio}`);
+  }
+  const reasons = [...incomplete, ...(force ? [] : limits)];
+  return {
+    tripped: deletes > 0 && reasons.length > 0,
+    reasons,
+    deletes,
+    ratio: Math.round(ratio * 1000) / 1000,
+    ...(force && limits.length ? { forced: true } : {})
+  };
+}
+
+/**
+ * Reconcile one Notion database against every pair that writes into it.
+ * The "present" set is the union of all those collections, so an item moving
+ * between two collections routed to the same DB is never seen as missing.
+ * Rows are read with the first pair's mapping and follow its delete policy.
+ * Destructive writes are appended to `journal` for restore.
+ */
+export async function reconcileDatabase(
+  group: SyncPair[],
+  allPairs: SyncPair[],
+  { dryRun, force = false, journal = [] }: { dryRun: boolean; force?: boolean; journal?: RestoreAction[] }
+) {
+    const owner = group[0];
+    const PER_PAGE = envInt('PER_PAGE', 50);
+    const MAX_PAGES = envInt('MAX_PAGES', 200); // wider for nightly
+    const DELETE_MODE = owner.deleteMode;
+    const DELETE_GRACE_HOURS = owner.deleteGraceHours;
+
+    // 1) Enumerate ALL Raindrop IDs in every collection routed to this DB.
+    // A cut-short enumeration makes present items look deleted, so note it.
+    const raindropIds = new Set<number>();
+    const incomplete: string[] = [];
+    const pairStats: {
+      pair: string;
+      raindropCollectionId: string;
+      pagesFetched: number;
+      raindropIds: number;
+      expected?: number;
+    }[] = [];
+    for (const pair of group) {
+      let pagesFetched = 0;
+      let expected: number | undefined;
+      let finished = false;
+      const seen = new Set<number>();
+      for (let page = 0; page < MAX_PAGES; page++) {
+        const { items, count }: { items: RaindropItem[]; count?: number } =
+          await fetchRaindropPage(pair.collectionId, PER_PAGE, page);
+        pagesFetched++;
+        expected ??= count;
+        for (const it of items) seen.add(it._id);
+        if (items.length < PER_PAGE) {
+          finished = true;
+          break;
+        }
+      }
+      for (const id of seen) raindropIds.add(id);
+      if (!finished) incomplete.push(`${pair.name}: stopped at MAX_PAGES (${MAX_PAGES})`);
+      else if (expected !== undefined && seen.size < expected) {
+        incomplete.push(`${pair.name}: enumerated ${seen.size} of ${expected} raindrops`);
+      }
+      pairStats.push({
+        pair: pair.name,
+        raindropCollectionId: pair.collectionId,
+        pagesFetched,
+        raindropIds: seen.size,
+        expected
+      });
+    }
+
+    // 2) Enumerate ALL Notion rows (with Raindrop ID)
+    const notionRows = await listAllNotionRows(owner);
+
+    const moved: number[] = [];
+    const movedAcrossPairs: { raindropId: number; toPair: string }[] = [];
+    const deleteDetected: number[] = [];
+    const deleteArchivedNow: number[] = [];
+    const skippedLocked: number[] = [];
+    const clearedFlags: number[] = [];
+    const unknown: { raindropId: number; error: string }[] = [];
+    const deleteWithheld: number[] = [];
+    // destructive actions wait for the safety brake
+    const toFlag: NotionRow[] = [];
+    const toArchive: NotionRow[] = [];
+
+    // 3) Compute Notion − Raindrop and resolve each missing ID
+    for (const row of notionRows) {
+      if (raindropIds.has(row.raindropId)) {
+        // still present — if previously flagged deleted, clear flags
+        if (row.deletedFlag) {
+          if (!dryRun) await clearDeleteFlags(owner, row.pageId, row.lockedFields);
+          clearedFlags.push(row.raindropId);
+        }
+        continue;
+      }
+
+      // Check the item directly to distinguish "moved" vs "deleted";
+      // a failed lookup proves nothing, so the row is left alone
+      let detail: Awaited<ReturnType<typeof fetchRaindropDetail>>;
+      try {
+        detail = await fetchRaindropDetail(row.raindropId);
+      } catch (e: any) {
+        unknown.push({ raindropId: row.raindropId, error: e?.message || 'Error' });
+        continue;
+      }
+
+      if (detail.exists && !detail.removed) {
+        // MOVED to another collection — update the Collection field
+        // relation mode links the Collections DB page; otherwise write the title
+        const newValue = !detail.collectionId
+          ? undefined
+          : owner.collectionsDatabaseId
+            ? await collectionPageId(owner.collectionsDatabaseId, detail.collectionId)
+            : await getCollectionTitleById(detail.collectionId).catch(() => undefined);
+
+        // Moved into a collection another pair syncs to a different DB
+        const toPair = allPairs.find(
+          (p) => p.databaseId !== owner.databaseId && p.collectionId === String(detail.collectionId)
+        );
+        if (toPair) movedAcrossPairs.push({ raindropId: row.raindropId, toPair: toPair.name });
+
+        if (!row.locked) {
+          const before: Partial<Record<MappedField, PropValue>> = {};
+          // per-field lock on Collection: keep it, but still clear stale delete flags
+          if (row.lockedFields.includes('collection')) skippedLocked.push(row.raindropId);
+          else {
+            if (!dryRun) await updateCollectionOnly(owner, row.pageId, newValue, row.lockedFields);
+            before.collection = row.collection;
+            moved.push(row.raindropId);
+          }
+          // and clear delete flags if set
+          if (row.deletedFlag) {
+            if (!dryRun) await clearDeleteFlags(owner, row.pageId, row.lockedFields);
+            Object.assign(before, { deleted: true, deleteDetectedAt: row.deleteDetectedAt });
+            clearedFlags.push(row.raindropId);
+          }
+          if (!dryRun && Object.keys(before).length) {
+            journal.push(journalEntry('moved', owner.databaseId, row, before));
+          }
+        } else {
+          skippedLocked.push(row.raindropId);
+        }
+        continue;
+      }
+
+      // Truly missing or removed in Raindrop → deletion flow with grace
+      if (!row.deletedFlag || !row.deleteDetectedAt) {
+        // first detection
+        toFlag.push(row);
+      } else {
+        const ageHours = hoursSince(row.deleteDetectedAt);
+        if (ageHours >= DELETE_GRACE_HOURS) {
+          if (DELETE_MODE === 'archive' && !row.locked) {
+            toArchive.push(row);
+          } else {
+            // report-only or locked
+            skippedLocked.push(row.raindropId);
+          }
+        } else {
+          // still in grace window — nothing to do
+          deleteDetected.push(row.raindropId);
+        }
+      }
+    }
+
+    // Safety brake: too many deletes, or an enumeration we can't trust →
+    // report-only for this run
+    const brake = safetyBrake(owner, {
+      deletes: toFlag.length + toArchive.length,
+      rows: notionRows.length,
+      incomplete,
+      force
+    });
+    if (brake.tripped) {
+      deleteWithheld.push(...[...toFlag, ...toArchive].map((r) => r.raindropId));
+      toFlag.length = 0;
+      toArchive.length = 0;
+    }
+    for (const row of toFlag) {
+      if (!dryRun) {
+        await markDeleteDetected(owner, row.pageId, new Date().toISOString(), !row.locked, row.lockedFields);
+        journal.push(
+          journalEntry('flagged', owner.databaseId, row, {
+            deleted: row.deletedFlag,
+            deleteDetectedAt: row.deleteDetectedAt,
+            ...(!row.locked ? { status: row.status } : {})
+          })
+        );
+      }
+      deleteDetected.push(row.raindropId);
+    }
+
+    // Heads-up before a mass archive (a broken token or collection ID looks
+    // exactly like "everything was deleted")
+    let archiveAlert: Awaited<ReturnType<typeof sendAlert>>;
+    const archiveThreshold = envInt('NOTIFY_ARCHIVE_THRESHOLD', 25);
+    if (!dryRun && toArchive.length > archiveThreshold) {
+      archiveAlert = await sendAlert({
+        key: `reconcile:archive:${owner.databaseId}`,
+        level: 'warning',
+        title: `reconcile is archiving ${toArchive.length} pages`,
+        text:
+          `Database ${owner.databaseId}: ${toArchive.length} rows are past the delete grace period ` +
+          `(threshold ${archiveThreshold}). Raindrop IDs: ${toArchive.slice(0, 50).map((r) => r.raindropId).join(', ')}` +
+          (toArchive.length > 50 ? ' …' : '')
+      }).catch(() => undefined);
+    }
+    for (const row of toArchive) {
+      if (!dryRun) {
+        await archivePage(row.pageId);
+        // the flags this archive went by; restore clears them
+        journal.push(
+          journalEntry('archived', owner.databaseId, row, {
+            deleted: row.deletedFlag,
+            deleteDetectedAt: row.deleteDetectedAt,
+            ...(!row.locked ? { status: row.status } : {})
+          })
+        );
+      }
+      deleteArchivedNow.push(row.raindropId);
+    }
+
+    // 4) Rows sharing a canonical URL (owner's policy, like deletes)
+    let duplicates: any;
+    if (owner.duplicates !== 'off') {
+      try {
+        duplicates = await dedupeDatabase(owner, { dryRun });
+      } catch (e: any) {
+        duplicates = { error: e?.message || 'Error' };
+      }
+    }
+
+    return {
+      notionDatabaseId: owner.databaseId,
+      deleteMode: DELETE_MODE,
+      graceHours: DELETE_GRACE_HOURS,
+      pairs: pairStats,
+      totals: {
+        notionRows: notionRows.length,
+        raindropIds: raindropIds.size
+      },
+      results: {
+        moved,                 // updated Collection in Notion
+        movedAcrossPairs,      // moved into a collection synced to another DB
+        deleteDetected,        // flagged or still within grace
+        deleteArchivedNow,     // archived this run (post-grace)
+        clearedFlags,          // items reappeared; flags cleared
+        skippedLocked,         // locked rows (or a locked Collection) we didn’t modify
+        deleteWithheld,        // would have been flagged / archived; safety brake tripped
+        unknown                // Raindrop lookup failed; left alone this run
+      },
+      brake,
+      duplicates,
+      archiveAlert
+    };
+}
+
+export type ReconcileOptions = {
+  pair?: string;              // comma-separated pair names; empty = all
+  dryRun?: boolean;
+  force?: boolean;            // past the safety brake's count / ratio limits
+};
+
+/**
+ * Reconcile every database a selected pair writes into. Every pair sharing a
+ * selected DB still counts towards that DB's "present" set.
+ */
+export async function runReconcile(opts: ReconcileOptions = {}) {
+  resetHttpStats();
+  setHttpDeadline();   // no time budget
+  const dryRun = !!opts.dryRun;
+  const startedAt = new Date();
+  // dry runs write nothing, so there's nothing to restore
+  const runId = dryRun ? undefined : newRunId(startedAt);
+
+  const allPairs = loadSyncPairs();
+  const selectedDbs = new Set(selectPairs(allPairs, opts.pair).map((p) => p.databaseId));
+  const groups = groupPairsByDatabase(allPairs.filter((p) => selectedDbs.has(p.databaseId)));
+
+  const databases: any[] = [];
+  const journal: RestoreAction[] = [];
+  let restore: { runId: string; actions: number } | undefined;
+  let restoreError: string | undefined;
+  for (const group of groups.values()) {
+    try {
+      databases.push({
+        ok: true,
+        ...(await reconcileDatabase(group, allPairs, { dryRun, force: !!opts.force, journal }))
+      });
+    } catch (e: any) {
+      databases.push({ ok: false, notionDatabaseId: group[0].databaseId, error: e?.message || 'Error' });
+    }
+    // saved after every database, so a run cut short still leaves its journal
+    if (runId && journal.length) {
+      const saved = await saveJournal({ runId, startedAt: startedAt.toISOString(), actions: journal }).catch(
+        (e: any) => {
+          restoreError = e?.message || 'Error';
+          return false;
+        }
+      );
+      if (saved) {
+        restore = { runId, actions: journal.length };
+        restoreError = undefined;
+      } else {
+        restoreError ??= 'STATE_STORE is none, so this run was not journaled and cannot be restored';
+      }
+    }
+  }
+
+  const failed = databases.filter((d) => !d.ok).length;
+  return {
+    ok: failed === 0,
+    allFailed: failed > 0 && failed === databases.length,
+    dryRun,
+    runId,
+    http: getHttpStats(),
+    databases,
+    restore,                   // where `raindrop-notion restore <runId>` finds this run
+    restoreError               // writes were made but not journaled
+  };
+}
@@ -0,0 +1,217 @@
+// lib/restore.ts
+// Undo for reconcile. Every destructive action (flag as deleted, archive,
+// Collection move) is journaled per run in the state store with the values it
+// overwrote; restore unarchives the pages and writes those values back.
+import { randomBytes } from 'node:crypto';
+
+import { notion } from './notion.js';
+import { setMapped, type MappedField, type PropValue } from './mapping.js';
+import { loadSyncPairs, groupPairsByDatabase } from './pairs.js';
+import { getStateStore, type StateStore } from './state.js';
+
+export type RestoreAction = {
+  action: 'flagged' | 'archived' | 'moved';
+  databaseId: string;
+  pageId: string;
+  raindropId: number;
+  before: Partial<Record<MappedField, PropValue>>;   // fields the action wrote; archive: the flags it went by
+  at: string;
+};
+
+export type RestoreJournal = { runId: string; startedAt: string; actions: RestoreAction[] };
+
+type RunIndexEntry = { runId: string; startedAt: string; actions: number };
+
+const INDEX_KEY = 'restore:runs';
+const journalKey = (runId: string) => `restore:run:${runId}`;
+
+function envInt(name: string, def: number) {
+  const v = process.env[name];
+  const n = v ? parseInt(v, 10) : NaN;
+  return Number.isFinite(n) ? n : def;
+}
+
+/** Sortable and short enough to type: 20261019T0900-3fa2 */
+export function newRunId(at = new Date()) {
+  return `${at.toISOString().replace(/[-:]/g, '').slice(0, 13)}-${randomBytes(2).toString('hex')}`;
+}
+
+// ------- journal -------
+/**
+ * A journal entry with the pre-write values of the fields the action wrote
+ * (locked fields are never written, so there's nothing to restore for them).
+ */
+export function journalEntry(
+  action: RestoreAction['action'],
+  databaseId: string,
+  row: { pageId: string; raindropId: number; lockedFields: MappedField[] },
+  before: RestoreAction['before']
+): RestoreAction {
+  const kept = Object.entries(before).filter(([field]) => !row.lockedFields.includes(field as MappedField));
+  return {
+    action,
+    databaseId,
+    pageId: row.pageId,
+    raindropId: row.raindropId,
+    before: Object.fromEntries(kept.map(([field, value]) => [field, value ?? null])),
+    at: new Date().toISOString()
+  };
+}
+
+/**
+ * Save (or overwrite) a run's journal and keep the index to the newest
+ * RESTORE_KEEP_RUNS runs; older journals are dropped. Runs with no actions
+ * are not kept. Returns whether the journal was saved (never on the 'none'
+ * store).
+ */
+export async function saveJournal(journal: RestoreJournal, store: StateStore = getStateStore()): Promise<boolean> {
+  if (store.kind === 'none' || !journal.actions.length) return false;
+  await store.set(journalKey(journal.runId), journal);
+
+  const keep = Math.max(1, envInt('RESTORE_KEEP_RUNS', 30));
+  const index = ((await store.get<RunIndexEntry[]>(INDEX_KEY)) ?? []).filter((r) => r.runId !== journal.runId);
+  index.unshift({ runId: journal.runId, startedAt: journal.startedAt, actions: journal.actions.length });
+  index.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  for (const dropped of index.splice(keep)) await store.delete(journalKey(dropped.runId));
+  await store.set(INDEX_KEY, index);
+  return true;
+}
+
+/** Journaled runs, newest first. */
+export async function listRestorableRuns(store: StateStore = getStateStore()): Promise<RunIndexEntry[]> {
+  return (await store.get<RunIndexEntry[]>(INDEX_KEY)) ?? [];
+}
+
+// ------- restore -------
+// Unarchiving alone leaves the delete flags, and the next reconcile archives
+// the page again; clear them. A Status of 'Archived' is the one
+// markDeleteDetected set (an older flag action's `before` wins over this).
+function clearedFlags(before: RestoreAction['before']): RestoreAction['before'] {
+  const out: RestoreAction['before'] = {};
+  if ('deleted' in before) out.deleted = false;
+  if ('deleteDetectedAt' in before) out.deleteDetectedAt = null;
+  if ('status' in before) out.status = before.status === 'Archived' ? null : before.status;
+  return out;
+}
+
+export type RestoreOptions = {
+  runId?: string;              // undo this run (all of it, or only `raindropIds`)
+  raindropIds?: number[];      // undo these items; without runId, across every journaled run
+  dryRun?: boolean;
+};
+
+export type RestoreReport = {
+  ok: boolean;
+  dryRun: boolean;
+  runs: string[];              // journals the restored actions came from
+  restored: { raindropId: number; pageId: string; actions: RestoreAction['action'][]; fields: string[] }[];
+  failed: { raindropId: number; pageId: string; error: string }[];
+  notFound: number[];          // requested IDs with nothing to undo
+};
+
+/**
+ * Undo journaled actions. Later runs' actions on the same pages are undone too
+ * (undoing a flag also undoes the archive that followed it). Per page, the
+ * oldest `before` value of each field wins, so the row ends up as it was before
+ * the first undone action. Restored actions leave the journal, so a second
+ * restore is a no-op. The next reconcile flags an item again if it is still
+ * gone from Raindrop.
+ */
+export async function runRestore(opts: RestoreOptions, store: StateStore = getStateStore()): Promise<RestoreReport> {
+  if (!opts.runId && !opts.raindropIds?.length) throw new Error('restore needs a run ID or raindrop IDs');
+  if (store.kind === 'none') throw new Error('restore needs a state store (STATE_STORE is none)');
+  const dryRun = !!opts.dryRun;
+  const wanted = opts.raindropIds?.length ? new Set(opts.raindropIds) : undefined;
+
+  // every journal, newest first
+  const journals: RestoreJournal[] = [];
+  for (const { runId } of await listRestorableRuns(store)) {
+    const journal = await store.get<RestoreJournal>(journalKey(runId));
+    if (journal) journals.push(journal);
+  }
+  const target = opts.runId ? journals.find((j) => j.runId === opts.runId) : undefined;
+  if (opts.runId && !target) throw new Error(`no restore journal for run ${opts.runId}`);
+
+  // the pages to restore, from the chosen run (or every run)
+  const pages = new Set<string>();
+  for (const journal of target ? [target] : journals) {
+    for (const a of journal.actions) if (!wanted || wanted.has(a.raindropId)) pages.add(a.pageId);
+  }
+
+  // page → its actions from that run and every later one, newest first
+  // (journals are newest first; actions within a run oldest first)
+  const byPage = new Map<string, RestoreAction[]>();
+  for (const journal of target ? journals.filter((j) => j.startedAt >= target.startedAt) : journals) {
+    for (const a of [...journal.actions].reverse()) {
+      if (pages.has(a.pageId)) byPage.set(a.pageId, [...(byPage.get(a.pageId) ?? []), a]);
+    }
+  }
+
+  const owners = new Map([...groupPairsByDatabase(loadSyncPairs())].map(([db, group]) => [db, group[0]]));
+  const found = new Set([...byPage.values()].map((actions) => actions[0].raindropId));
+  const report: RestoreReport = {
+    ok: true,
+    dryRun,
+    runs: [],
+    restored: [],
+    failed: [],
+    notFound: wanted ? [...wanted].filter((id) => !found.has(id)) : []
+  };
+  const done = new Set<RestoreAction>();
+
+  for (const [pageId, actions] of byPage) {
+    const { raindropId, databaseId } = actions[0];
+    try {
+      const owner = owners.get(databaseId);
+      if (!owner) throw new Error(`database ${databaseId} is not in any sync pair`);
+
+      const before: Partial<Record<MappedField, PropValue>> = {};
+      for (const a of actions) {
+        Object.assign(before, a.action === 'archived' ? clearedFlags(a.before) : a.before);   // older overwrites newer
+      }
+      const properties: Record<string, any> = {};
+      for (const [field, value] of Object.entries(before)) {
+        setMapped(properties, owner.mapping, field as MappedField, value ?? null);
+      }
+      if (Object.keys(properties).length) setMapped(properties, owner.mapping, 'syncedAt', new Date().toISOString());
+
+      // an archived page can't take property updates, so unarchive in the same call
+      const unarchive = actions.some((a) => a.action === 'archived');
+      if (!dryRun) {
+        await notion.pages.update({
+          page_id: pageId,
+          ...(unarchive ? { archived: false } : {}),
+          properties
+        });
+      }
+      actions.forEach((a) => done.add(a));
+      report.restored.push({
+        raindropId,
+        pageId,
+        actions: actions.map((a) => a.action),
+        fields: [...(unarchive ? ['archived'] : []), ...Object.keys(before)]
+      });
+    } catch (e: any) {
+      report.failed.push({ raindropId, pageId, error: e?.message || 'Error' });
+    }
+  }
+
+  // restored actions leave their journals; empty journals leave the index
+  if (!dryRun && done.size) {
+    let index = await listRestorableRuns(store);
+    for (const journal of journals) {
+      const actions = journal.actions.filter((a) => !done.has(a));
+      if (actions.length === journal.actions.length) continue;
+      if (actions.length) await store.set(journalKey(journal.runId), { ...journal, actions });
+      else await store.delete(journalKey(journal.runId));
+      index = actions.length
+        ? index.map((r) => (r.runId === journal.runId ? { ...r, actions: actions.length } : r))
+        : index.filter((r) => r.runId !== journal.runId);
+    }
+    await store.set(INDEX_KEY, index);
+  }
+
+  report.runs = journals.filter((j) => j.actions.some((a) => done.has(a))).map((j) => j.runId);
+  report.ok = report.failed.length === 0;
+  return report;
+}
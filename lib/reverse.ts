@@ -0,0 +1,182 @@
+// lib/reverse.ts
+import {
+  fetchRaindropDetail,
+  updateRaindrop,
+  createRaindrop,
+  type RaindropItem,
+  type RaindropPatch
+} from './raindrop.js';
+import {
+  listPagesEditedSince,
+  recordPushed,
+  flagConflict,
+  listUnlinkedPages,
+  linkPageToRaindrop,
+  type NotionEditedPage
+} from './notion.js';
+import { ALL_COLLECTIONS, UNSORTED_COLLECTION, type SyncPair } from './pairs.js';
+import { applyTagRules } from './tags.js';
+import { normalizeMarkdown } from './richtext.js';
+
+function newerThan(a?: string, b?: string) {
+  if (!a) return false;
+  if (!b) return true;
+  return new Date(a).getTime() > new Date(b).getTime();
+}
+
+function sameTags(a: string[] = [], b: string[] = []) {
+  if (a.length !== b.length) return false;
+  const sa = [...a].sort();
+  const sb = [...b].sort();
+  return sa.every((t, i) => t === sb[i]);
+}
+
+// Only fields that are mapped (i.e. present on the page) are compared
+function diffPage(pair: SyncPair, page: NotionEditedPage, item: RaindropItem): RaindropPatch {
+  const m = pair.mapping;
+  const patch: RaindropPatch = {};
+  if (m.title && page.title !== undefined && page.title.trim() !== (item.title ?? '').trim()) {
+    patch.title = page.title.trim();
+  }
+  // Notion shows tags after the tag rules; compare against that, and keep the
+  // raindrop's denied / routed-away tags when pushing an edit back
+  if (m.tags && page.tags !== undefined) {
+    const tagged = applyTagRules(item.tags, pair.tagRules);
+    if (!sameTags(page.tags, tagged.tags)) patch.tags = [...page.tags, ...tagged.notInTags];
+  }
+  // the page's note reads back as normalized Markdown; so must the raindrop's
+  if (m.note && page.note !== undefined && page.note.trim() !== normalizeMarkdown(item.note ?? '').trim()) {
+    patch.note = page.note;
+  }
+  if (m.excerpt && page.excerpt !== undefined && page.excerpt.trim() !== (item.excerpt ?? '').trim()) {
+    patch.excerpt = page.excerpt;
+  }
+  return patch;
+}
+
+export type ReverseReport = {
+  scanned: number;
+  pushed: { raindropId: number; fields: string[] }[];
+  toPushPreview: { raindropId: number; fields: string[] }[];
+  conflicts: { raindropId: number; resolution: string; fields: string[] }[];
+  heldForReview: number[];
+  missingInRaindrop: number[];
+  unchanged: number;
+  errors: { raindropId: number; error: string }[];
+};
+
+/**
+ * Reverse pass: find Notion pages edited after their "Synced At", diff them
+ * against the live raindrop and PUT changed fields back. When Raindrop also
+ * changed since the last sync, `pair.conflictPolicy` decides the outcome.
+ */
+export async function pushNotionEdits(
+  pair: SyncPair,
+  { sinceIso, dryRun }: { sinceIso: string; dryRun: boolean }
+): Promise<ReverseReport> {
+  const report: ReverseReport = {
+    scanned: 0,
+    pushed: [],
+    toPushPreview: [],
+    conflicts: [],
+    heldForReview: [],
+    missingInRaindrop: [],
+    unchanged: 0,
+    errors: []
+  };
+
+  const pages = await listPagesEditedSince(pair, sinceIso);
+  for (const page of pages) {
+    // never synced by us, or our own write was the last edit
+    if (!page.syncedAt || !newerThan(page.lastEditedTime, page.syncedAt)) continue;
+    report.scanned++;
+
+    if (page.conflict) {
+      report.heldForReview.push(page.raindropId);
+      continue;
+    }
+
+    try {
+      const detail = await fetchRaindropDetail(page.raindropId);
+      if (!detail.exists || detail.removed || !detail.item) {
+        report.missingInRaindrop.push(page.raindropId);
+        continue;
+      }
+      const item = detail.item;
+
+      const patch = diffPage(pair, page, item);
+      const fields = Object.keys(patch);
+      if (!fields.length) {
+        report.unchanged++;
+        continue;
+      }
+
+      const raindropChanged = newerThan(item.lastUpdate, page.raindropLastUpdate);
+      if (raindropChanged && pair.conflictPolicy !== 'notion-wins') {
+        report.conflicts.push({ raindropId: page.raindropId, resolution: pair.conflictPolicy, fields });
+        // raindrop-wins: leave it to the forward pass to overwrite Notion
+        if (pair.conflictPolicy === 'flag' && !dryRun) {
+          await flagConflict(pair, page.pageId, item.lastUpdate);
+        }
+        continue;
+      }
+      if (raindropChanged) {
+        report.conflicts.push({ raindropId: page.raindropId, resolution: 'notion-wins', fields });
+      }
+
+      if (dryRun) {
+        report.toPushPreview.push({ raindropId: page.raindropId, fields });
+        continue;
+      }
+      const updated = await updateRaindrop(page.raindropId, patch);
+      await recordPushed(pair, page.pageId, updated?.lastUpdate);
+      report.pushed.push({ raindropId: page.raindropId, fields });
+    } catch (e: any) {
+      report.errors.push({ raindropId: page.raindropId, error: e?.message || 'Error' });
+    }
+  }
+
+  return report;
+}
+
+export type NotionCreateReport = {
+  found: number;
+  created: { raindropId: number; pageId: string }[];
+  toCreatePreview: string[];
+  errors: { pageId: string; error: string }[];
+};
+
+/**
+ * Rows someone pasted a URL into directly: create the raindrop in the pair's
+ * collection ("all collections" pairs use Unsorted), then write its _id back
+ * to "Raindrop ID" so the row joins the normal ID-keyed upsert flow.
+ */
+export async function createRaindropsFromNotion(
+  pair: SyncPair,
+  { dryRun }: { dryRun: boolean }
+): Promise<NotionCreateReport> {
+  const report: NotionCreateReport = { found: 0, created: [], toCreatePreview: [], errors: [] };
+  const collectionId = pair.collectionId === ALL_COLLECTIONS ? UNSORTED_COLLECTION : pair.collectionId;
+
+  const pages = await listUnlinkedPages(pair);
+  report.found = pages.length;
+  for (const page of pages) {
+    if (dryRun) {
+      report.toCreatePreview.push(page.pageId);
+      continue;
+    }
+    try {
+      const item = await createRaindrop(collectionId, {
+        link: page.link,
+        ...(page.title ? { title: page.title } : {}),
+        ...(page.tags?.length ? { tags: page.tags } : {}),
+        ...(page.note ? { note: page.note } : {})
+      });
+      await linkPageToRaindrop(pair, page.pageId, item);
+      report.created.push({ raindropId: item._id, pageId: page.pageId });
+    } catch (e: any) {
+      report.errors.push({ pageId: page.pageId, error: e?.message || 'Error' });
+    }
+  }
+  return report;
+}
@@ -0,0 +1,230 @@
+// lib/richtext.ts
+// Markdown ⇄ Notion rich text, with Notion's size limits applied.
+
+// Notion caps a rich-text segment at 2000 chars and a rich-text array at 100 segments
+export const NOTION_TEXT_LIMIT = 2000;
+export const NOTION_RICH_TEXT_ITEMS = 100;
+
+type Annotations = { bold?: boolean; italic?: boolean; strikethrough?: boolean; code?: boolean };
+type Segment = { content: string; annotations: Annotations; url?: string };
+
+// earliest-match alternation; order matters (escapes first, `**` before `*`);
+// a closing delimiter never follows a backslash, and `*` italics step over
+// whole `**…**` runs so a nested bold doesn't close them early
+const INLINE_RE =
+  /\\([\\`*_~[\]])|`([^`\n]+)`|\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)|\*\*(.+?)(?<!\\)\*\*|__(.+?)(?<!\\)__|~~(.+?)(?<!\\)~~|\*(?!\s|\*)((?:\\.|\*\*.+?\*\*|[^*\\])+?)(?<!\\)\*(?!\*)|(?<![A-Za-z0-9_])_(?!\s)(.+?)(?<!\\)_(?![A-Za-z0-9_])/s;
+
+function parseInline(md: string, ann: Annotations, url?: string): Segment[] {
+  const out: Segment[] = [];
+  let rest = md;
+  while (rest) {
+    const m = INLINE_RE.exec(rest);
+    if (!m) {
+      out.push({ content: rest, annotations: ann, url });
+      break;
+    }
+    if (m.index > 0) out.push({ content: rest.slice(0, m.index), annotations: ann, url });
+
+    const [, escaped, code, linkText, linkUrl, bold1, bold2, strike, ital1, ital2] = m;
+    if (escaped !== undefined) out.push({ content: escaped, annotations: ann, url });
+    else if (code !== undefined) out.push({ content: code, annotations: { ...ann, code: true }, url });
+    else if (linkText !== undefined) out.push(...parseInline(linkText, ann, linkUrl));
+    else if (bold1 !== undefined || bold2 !== undefined) {
+      out.push(...parseInline((bold1 ?? bold2)!, { ...ann, bold: true }, url));
+    } else if (strike !== undefined) out.push(...parseInline(strike, { ...ann, strikethrough: true }, url));
+    else out.push(...parseInline((ital1 ?? ital2)!, { ...ann, italic: true }, url));
+
+    rest = rest.slice(m.index + m[0].length);
+  }
+  return out;
+}
+
+function sameStyle(a: Segment, b: Segment) {
+  return (
+    a.url === b.url &&
+    !!a.annotations.bold === !!b.annotations.bold &&
+    !!a.annotations.italic === !!b.annotations.italic &&
+    !!a.annotations.strikethrough === !!b.annotations.strikethrough &&
+    !!a.annotations.code === !!b.annotations.code
+  );
+}
+
+function toRichText(segments: Segment[]): any[] {
+  // merge neighbours with identical style, then split on the 2000-char limit
+  const merged: Segment[] = [];
+  for (const seg of segments) {
+    if (!seg.content) continue;
+    const last = merged[merged.length - 1];
+    if (last && sameStyle(last, seg)) last.content += seg.content;
+    else merged.push({ ...seg });
+  }
+
+  const out: any[] = [];
+  for (const seg of merged) {
+    const hasAnn = Object.values(seg.annotations).some(Boolean);
+    for (let i = 0; i < seg.content.length; i += NOTION_TEXT_LIMIT) {
+      out.push({
+        type: 'text',
+        text: {
+          content: seg.content.slice(i, i + NOTION_TEXT_LIMIT),
+          ...(seg.url ? { link: { url: seg.url } } : {})
+        },
+        ...(hasAnn ? { annotations: seg.annotations } : {})
+      });
+    }
+  }
+  return out;
+}
+
+/** Plain text → rich text, split into ≤2000-char segments. */
+export function plainRichText(s: string, annotations?: Annotations): any[] {
+  return toRichText([{ content: s ?? '', annotations: annotations ?? {} }]);
+}
+
+/** Inline Markdown (bold/italic/strike/code/links) → rich text. */
+export function markdownToRichText(md: string): any[] {
+  return toRichText(parseInline(md ?? '', {}));
+}
+
+// ------- rich text → Markdown -------
+type Mark = 'strikethrough' | 'bold' | 'italic';
+const MARKS: Mark[] = ['strikethrough', 'bold', 'italic'];
+const WORD_CHAR = /[A-Za-z0-9_]/;
+
+// Backslash-escape whatever parseInline would read as markup. Underscores
+// inside a word (snake_case) can't open emphasis and stay as they are.
+function escapeMarkdown(s: string) {
+  return s
+    .replace(/[\\`*]/g, '\\$&')
+    .replace(/~~/g, '\\~\\~')
+    .replace(/(?<![A-Za-z0-9])_|_(?![A-Za-z0-9])/g, '\\_')
+    .replace(/\[(?=[^\]\n]+\]\(https?:)/g, '\\[');
+}
+
+type RenderSeg = { text: string; marks: Set<Mark>; code: boolean };
+
+// One link (or unlinked run): marks open and close across segments instead of
+// per segment, so `**a *b* c**` comes back as written
+function renderRun(segs: RenderSeg[]): string {
+  let out = '';
+  const stack: { mark: Mark; delim: string }[] = [];
+  // how many segments from i on carry `mark` (longer runs open first, outside)
+  const runLength = (i: number, mark: Mark) => {
+    let j = i;
+    while (j < segs.length && segs[j].marks.has(mark)) j++;
+    return j - i;
+  };
+
+  segs.forEach((seg, i) => {
+    // close from the top until only wanted marks are left open
+    while (stack.some((o) => !seg.marks.has(o.mark))) out += stack.pop()!.delim;
+    const opening = MARKS.filter((mk) => seg.marks.has(mk) && !stack.some((o) => o.mark === mk)).sort(
+      (a, b) => runLength(i, b) - runLength(i, a)
+    );
+    for (const mark of opening) {
+      let delim = mark === 'bold' ? '**' : mark === 'strikethrough' ? '~~' : '*';
+      // `_` italics don't run into a neighbouring `**` (`**a _b_**`), but only
+      // work at word boundaries
+      if (mark === 'italic') {
+        const after = segs[i + runLength(i, mark)]?.text[0] ?? '';
+        if (!WORD_CHAR.test(out.slice(-1)) && !WORD_CHAR.test(after)) delim = '_';
+      }
+      out += delim;
+      stack.push({ mark, delim });
+    }
+    out += seg.code ? '`' + seg.text + '`' : escapeMarkdown(seg.text);
+  });
+  while (stack.length) out += stack.pop()!.delim;
+  return out;
+}
+
+/** Inverse of markdownToRichText, so round-trips compare equal. */
+export function richTextToMarkdown(richText: any[]): string {
+  const runs: { url?: string; segs: RenderSeg[] }[] = [];
+  for (const t of richText ?? []) {
+    const text: string = t?.plain_text ?? t?.text?.content ?? '';
+    if (!text) continue;
+    const a = t?.annotations ?? {};
+    const url: string | undefined = t?.href ?? t?.text?.link?.url ?? undefined;
+    const seg: RenderSeg = { text, marks: new Set(MARKS.filter((mk) => a[mk])), code: !!a.code };
+    const last = runs[runs.length - 1];
+    if (last && last.url === url) last.segs.push(seg);
+    else runs.push({ url, segs: [seg] });
+  }
+  return runs.map((r) => (r.url ? `[${renderRun(r.segs)}](${r.url})` : renderRun(r.segs))).join('');
+}
+
+/**
+ * Markdown as it reads back from Notion: the same text, re-rendered through
+ * rich text (`__x__` → `**x**`, `_x_` → `*x*`, …). Compare against this, not
+ * the raw source, or the rendering differences look like edits.
+ */
+export function normalizeMarkdown(md: string): string {
+  return richTextToMarkdown(markdownToRichText(md ?? ''));
+}
+
+/** True when the rich text fits into a single Notion property value. */
+export function fitsProperty(richText: any[]) {
+  return richText.length <= NOTION_RICH_TEXT_ITEMS;
+}
+
+// ------- block-level Markdown (page body fallback) -------
+function textBlock(type: string, md: string): any {
+  return { object: 'block', type, [type]: { rich_text: markdownToRichText(md).slice(0, NOTION_RICH_TEXT_ITEMS) } };
+}
+
+/**
+ * Markdown → Notion blocks: headings, bullet/numbered lists, quotes,
+ * fenced code and paragraphs. Anything else is kept as paragraph text.
+ */
+export function markdownToBlocks(md: string): any[] {
+  const blocks: any[] = [];
+  const lines = (md ?? '').replace(/\r\n?/g, '\n').split('\n');
+  let para: string[] = [];
+
+  const flushPara = () => {
+    if (para.length) blocks.push(textBlock('paragraph', para.join('\n')));
+    para = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (/^```/.test(line)) {
+      flushPara();
+      const code: string[] = [];
+      for (i++; i < lines.length && !/^```/.test(lines[i]); i++) code.push(lines[i]);
+      blocks.push({
+        object: 'block',
+        type: 'code',
+        code: { language: 'plain text', rich_text: plainRichText(code.join('\n')).slice(0, NOTION_RICH_TEXT_ITEMS) }
+      });
+      continue;
+    }
+
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line);
+    const bullet = /^\s*[-*+]\s+(.*)$/.exec(line);
+    const numbered = /^\s*\d+[.)]\s+(.*)$/.exec(line);
+    const quote = /^>\s?(.*)$/.exec(line);
+
+    if (heading) {
+      flushPara();
+      blocks.push(textBlock(`heading_${heading[1].length}`, heading[2]));
+    } else if (bullet) {
+      flushPara();
+      blocks.push(textBlock('bulleted_list_item', bullet[1]));
+    } else if (numbered) {
+      flushPara();
+      blocks.push(textBlock('numbered_list_item', numbered[1]));
+    } else if (quote) {
+      flushPara();
+      blocks.push(textBlock('quote', quote[1]));
+    } else if (!line.trim()) {
+      flushPara();
+    } else {
+      para.push(line);
+    }
+  }
+  flushPara();
+  return blocks;
+}
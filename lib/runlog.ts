@@ -0,0 +1,261 @@
+// lib/runlog.ts
+// Run history: every sync / reconcile run as a row in a Notion "Sync Log"
+// database (SYNC_LOG_DATABASE_ID) and/or a line in a JSONL file (SYNC_LOG_FILE,
+// or the CLI's --log). Logging never fails the run it describes.
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import { notion, titlePropertyOf } from './notion.js';
+import { plainRichText } from './richtext.js';
+import { checkFixedSchema, type SchemaReport } from './schema.js';
+import { decodeProperty, type PropertySpec } from './mapping.js';
+
+export type RunKind = 'sync' | 'reconcile';
+export type RunTrigger = 'cron' | 'manual' | 'button' | 'cli';
+
+export type RunRecord = {
+  kind: RunKind;
+  runId?: string;                       // reconcile: the restore journal's ID
+  trigger: RunTrigger;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  dryRun: boolean;
+  status: 'ok' | 'partial' | 'failed';
+  counts: Record<string, number>;
+  errors: string[];
+  affected: Record<string, number[]>;   // raindrop IDs per outcome
+};
+
+// Columns of the Sync Log database (plus its title column)
+export const LOG_PROPS: Record<string, PropertySpec> = {
+  kind: { name: 'Kind', type: 'select' },
+  trigger: { name: 'Trigger', type: 'select' },
+  started: { name: 'Started', type: 'date' },
+  dryRun: { name: 'Dry Run', type: 'checkbox' },
+  status: { name: 'Status', type: 'select' },
+  counts: { name: 'Counts', type: 'rich_text' },
+  errors: { name: 'Errors', type: 'rich_text' },
+  alerts: { name: 'Alerts', type: 'rich_text' }   // keys of the alerts this run sent, one per line
+};
+
+// Notion caps rich text at 100 segments; the body keeps the full JSON up to that
+const MAX_ERRORS = 50;
+const MAX_BODY_SEGMENTS = 100;
+
+// ------- summaries -------
+function ids(list: any[] | undefined): number[] {
+  return (list ?? [])
+    .map((x) => (typeof x === 'number' ? x : x?.raindropId))
+    .filter((x): x is number => typeof x === 'number');
+}
+
+function add(counts: Record<string, number>, key: string, n = 0) {
+  counts[key] = (counts[key] ?? 0) + n;
+}
+
+function addIds(affected: Record<string, number[]>, key: string, list: number[]) {
+  if (!list.length) return;
+  affected[key] = [...new Set([...(affected[key] ?? []), ...list])];
+}
+
+function syncSummary(report: any, counts: Record<string, number>, affected: Record<string, number[]>, errors: string[]) {
+  for (const p of report.pairs ?? []) {
+    add(counts, 'pairs', 1);
+    if (p.deferred) add(counts, 'deferred', 1);
+    if (!p.ok) errors.push(`${p.pair}: ${p.error}`);
+    add(counts, 'created', p.created);
+    add(counts, 'updated', p.updated);
+    add(counts, 'unchanged', p.unchanged);
+    add(counts, 'failed', p.failed?.length);
+    add(counts, 'skippedLocked', p.skippedLocked?.length);
+    add(counts, 'skippedConflict', p.skippedConflict?.length);
+    add(counts, 'pushedToRaindrop', p.reverse?.pushed?.length);
+    add(counts, 'createdInRaindrop', p.fromNotion?.created?.length);
+    addIds(affected, 'created', p.createdIds ?? p.toCreatePreview ?? []);
+    addIds(affected, 'updated', p.updatedIds ?? p.toUpdatePreview ?? []);
+    addIds(affected, 'failed', ids(p.failed));
+    addIds(affected, 'skippedLocked', ids(p.skippedLocked));
+    addIds(affected, 'pushedToRaindrop', ids(p.reverse?.pushed));
+    addIds(affected, 'duplicatesLinked', ids(p.duplicates?.linked));
+    for (const f of p.failed ?? []) errors.push(`${p.pair} #${f.raindropId}: ${f.error}`);
+    for (const f of p.reverse?.errors ?? []) errors.push(`${p.pair} reverse #${f.raindropId}: ${f.error}`);
+    if (p.duplicates?.error) errors.push(`${p.pair} duplicates: ${p.duplicates.error}`);
+  }
+}
+
+function reconcileSummary(report: any, counts: Record<string, number>, affected: Record<string, number[]>, errors: string[]) {
+  for (const d of report.databases ?? []) {
+    add(counts, 'databases', 1);
+    if (!d.ok) errors.push(`${d.notionDatabaseId}: ${d.error}`);
+    for (const [key, list] of Object.entries((d.results ?? {}) as Record<string, any[]>)) {
+      add(counts, key, list.length);
+      addIds(affected, key, ids(list));
+    }
+    if (d.brake?.tripped) errors.push(`${d.notionDatabaseId} safety brake: ${d.brake.reasons.join('; ')}`);
+    add(counts, 'duplicateGroups', d.duplicates?.groups?.length);
+    addIds(affected, 'duplicatesLinked', ids(d.duplicates?.linked));
+    if (d.duplicates?.error) errors.push(`${d.notionDatabaseId} duplicates: ${d.duplicates.error}`);
+  }
+}
+
+/** Boil a runSync / runReconcile report (or the error it threw) down to one record. */
+export function summarizeRun(
+  kind: RunKind,
+  result: { ok?: boolean; allFailed?: boolean; dryRun?: boolean; runId?: string } | Error,
+  ctx: { trigger: RunTrigger; startedAt: Date; dryRun?: boolean }
+): RunRecord {
+  const finished = new Date();
+  const counts: Record<string, number> = {};
+  const affected: Record<string, number[]> = {};
+  const errors: string[] = [];
+
+  if (result instanceof Error) errors.push(result.message);
+  else if (kind === 'sync') syncSummary(result, counts, affected, errors);
+  else reconcileSummary(result, counts, affected, errors);
+
+  const status =
+    result instanceof Error || result.allFailed ? 'failed' : result.ok && !errors.length ? 'ok' : 'partial';
+  return {
+    kind,
+    ...(result instanceof Error || !result.runId ? {} : { runId: result.runId }),
+    trigger: ctx.trigger,
+    startedAt: ctx.startedAt.toISOString(),
+    finishedAt: finished.toISOString(),
+    durationMs: finished.getTime() - ctx.startedAt.getTime(),
+    dryRun: result instanceof Error ? !!ctx.dryRun : !!result.dryRun,
+    status,
+    counts: Object.fromEntries(Object.entries(counts).filter(([, n]) => n)),
+    errors,
+    affected
+  };
+}
+
+// ------- sinks -------
+function countsText(counts: Record<string, number>) {
+  return Object.entries(counts)
+    .map(([k, n]) => `${k} ${n}`)
+    .join(' · ');
+}
+
+async function writeNotionLog(databaseId: string, record: RunRecord) {
+  const titleProp = await titlePropertyOf(databaseId);
+  const P = LOG_PROPS;
+  const details = JSON.stringify({ runId: record.runId, affected: record.affected, errors: record.errors }, null, 2);
+  const page = await notion.pages.create({
+    parent: { database_id: databaseId },
+    properties: {
+      [titleProp]: { title: plainRichText(`${record.kind} ${record.startedAt.slice(0, 16).replace('T', ' ')}`) },
+      [P.kind.name]: { select: { name: record.kind } },
+      [P.trigger.name]: { select: { name: record.trigger } },
+      [P.started.name]: { date: { start: record.startedAt, end: record.finishedAt } },
+      [P.dryRun.name]: { checkbox: record.dryRun },
+      [P.status.name]: { select: { name: record.status } },
+      [P.counts.name]: { rich_text: plainRichText(countsText(record.counts)) },
+      [P.errors.name]: { rich_text: plainRichText(record.errors.slice(0, MAX_ERRORS).join('\n')).slice(0, MAX_BODY_SEGMENTS) }
+    },
+    children: [
+      {
+        object: 'block',
+        type: 'code',
+        code: { language: 'json', rich_text: plainRichText(details).slice(0, MAX_BODY_SEGMENTS) }
+      }
+    ]
+  });
+  return page.id;
+}
+
+async function writeFileLog(path: string, record: RunRecord) {
+  await mkdir(dirname(path), { recursive: true });
+  await appendFile(path, JSON.stringify(record) + '\n');
+}
+
+export type RunLogResult = { notionPageId?: string; file?: string; errors?: string[] };
+
+/**
+ * Write the record to every configured sink. Returns where it went; sink
+ * failures come back under `errors` instead of being thrown.
+ */
+export async function recordRun(record: RunRecord, opts: { file?: string } = {}): Promise<RunLogResult | undefined> {
+  const databaseId = process.env.SYNC_LOG_DATABASE_ID;
+  const file = opts.file ?? process.env.SYNC_LOG_FILE;
+  if (!databaseId && !file) return undefined;
+
+  const out: RunLogResult = {};
+  const errors: string[] = [];
+  if (databaseId) {
+    try {
+      out.notionPageId = await writeNotionLog(databaseId, record);
+    } catch (e: any) {
+      errors.push(`notion: ${e?.message || 'Error'}`);
+    }
+  }
+  if (file) {
+    try {
+      await writeFileLog(file, record);
+      out.file = file;
+    } catch (e: any) {
+      errors.push(`file: ${e?.message || 'Error'}`);
+    }
+  }
+  if (errors.length) out.errors = errors;
+  return out;
+}
+
+// ------- history -------
+// Read back by notifications when there's no state store to keep their marks in
+export type LoggedRun = { pageId: string; startedAt: string; status: RunRecord['status']; alerts: string[] };
+
+type Queried = Awaited<ReturnType<typeof notion.databases.query>>;
+
+function toLoggedRun(page: any): LoggedRun {
+  const props = page.properties ?? {};
+  const P = LOG_PROPS;
+  return {
+    pageId: page.id,
+    startedAt: (decodeProperty('date', props[P.started.name]) as string | undefined) ?? '',
+    status: decodeProperty('select', props[P.status.name]) as RunRecord['status'],
+    alerts: String(decodeProperty('rich_text', props[P.alerts.name]) ?? '').split('\n').filter(Boolean)
+  };
+}
+
+/** The newest non-dry runs of one kind, newest first. */
+export async function recentRuns(databaseId: string, kind: RunKind, limit = 50): Promise<LoggedRun[]> {
+  const resp: Queried = await notion.databases.query({
+    database_id: databaseId,
+    filter: {
+      and: [
+        { property: LOG_PROPS.kind.name, select: { equals: kind } },
+        { property: LOG_PROPS.dryRun.name, checkbox: { equals: false } }
+      ]
+    },
+    sorts: [{ property: LOG_PROPS.started.name, direction: 'descending' }],
+    page_size: Math.min(limit, 100)
+  });
+  return resp.results.map(toLoggedRun);
+}
+
+/** The newest run that sent the alert `key`. */
+export async function lastRunAlerted(databaseId: string, key: string): Promise<LoggedRun | undefined> {
+  const resp: Queried = await notion.databases.query({
+    database_id: databaseId,
+    filter: { property: LOG_PROPS.alerts.name, rich_text: { contains: key } },
+    sorts: [{ property: LOG_PROPS.started.name, direction: 'descending' }],
+    page_size: 10
+  });
+  // `contains` is a substring match
+  return resp.results.map(toLoggedRun).find((r) => r.alerts.includes(key));
+}
+
+/** Record on a run's row which alerts it sent. */
+export async function setRunAlerts(pageId: string, keys: string[]) {
+  await notion.pages.update({
+    page_id: pageId,
+    properties: { [LOG_PROPS.alerts.name]: { rich_text: plainRichText(keys.join('\n')) } }
+  });
+}
+
+/** Doctor check for the Sync Log DB; `fix` creates the missing columns. */
+export function checkRunLogSchema(databaseId: string, { fix = false } = {}): Promise<SchemaReport> {
+  return checkFixedSchema(databaseId, Object.values(LOG_PROPS), 'syncLog', { fix });
+}
@@ -0,0 +1,220 @@
+// lib/schema.ts
+// Compare a Notion database's properties with what a pair's mapping writes,
+// and optionally create what is missing (databases.update).
+import { notion } from './notion.js';
+import type { MappedField, PropertySpec } from './mapping.js';
+import type { SyncPair } from './pairs.js';
+
+// Select options the sync writes (New on create, Archived after a delete)
+export const REQUIRED_SELECT_OPTIONS: Partial<Record<MappedField, string[]>> = {
+  status: ['New', 'Archived']
+};
+
+export type SchemaIssue = {
+  field: MappedField | 'syncLog';
+  property: string;
+  problem: 'missing' | 'wrong-type' | 'missing-options';
+  expected: string;
+  actual?: string;
+  fixable: boolean;
+  fixed?: boolean;
+};
+
+export type SchemaReport = {
+  notionDatabaseId: string;
+  pairs: string[];
+  ok: boolean;
+  checked: number;
+  issues: SchemaIssue[];
+};
+
+// Fields a pair only writes when the matching feature is on
+function fieldsInUse(pair: SyncPair): MappedField[] {
+  return (Object.keys(pair.mapping) as MappedField[]).filter((f) => {
+    if (!pair.mapping[f]) return false;
+    if (f === 'highlightsCount') return pair.highlights;
+    if (f === 'cover') return pair.cover;
+    if (f === 'conflict') return pair.conflictPolicy === 'flag';
+    if (f === 'canonicalUrl' || f === 'duplicateOf') return pair.duplicates !== 'off';
+    return true;
+  });
+}
+
+// Options this pair writes into a select (the broken-link Status is per pair)
+function requiredOptions(field: MappedField, pair: SyncPair) {
+  const options = REQUIRED_SELECT_OPTIONS[field];
+  if (field === 'status' && options && pair.brokenStatus) return [...options, pair.brokenStatus];
+  return options;
+}
+
+function newPropertySchema(field: MappedField, spec: PropertySpec, pair: SyncPair) {
+  const options = requiredOptions(field, pair);
+  if (spec.type === 'select' && options) return { select: { options: options.map((name) => ({ name })) } };
+  if (spec.type === 'relation' && field === 'collection') {
+    return { relation: { database_id: pair.collectionsDatabaseId, single_property: {} } };
+  }
+  if (spec.type === 'relation' && field === 'duplicateOf') {
+    return { relation: { database_id: pair.databaseId, single_property: {} } };
+  }
+  return { [spec.type]: {} };
+}
+
+/**
+ * Check every property the pairs sharing one database write. With `fix`,
+ * missing properties and select options are created in a single update;
+ * wrong types and a renamed title column are only reported (changing them
+ * would touch existing data).
+ */
+export async function checkDatabaseSchema(
+  group: SyncPair[],
+  { fix = false }: { fix?: boolean } = {}
+): Promise<SchemaReport> {
+  const databaseId = group[0].databaseId;
+  const db: any = await notion.databases.retrieve({ database_id: databaseId });
+  const props: Record<string, any> = db?.properties ?? {};
+
+  const issues: SchemaIssue[] = [];
+  const updates: Record<string, any> = {};
+  const seen = new Set<string>();
+
+  for (const pair of group) {
+    for (const field of fieldsInUse(pair)) {
+      const spec = pair.mapping[field]!;
+      if (seen.has(`${field}:${spec.name}`)) continue;
+      seen.add(`${field}:${spec.name}`);
+
+      const actual = props[spec.name];
+      if (!actual) {
+        // a database has exactly one title column; it can only be renamed
+        const fixable = spec.type !== 'title';
+        issues.push({ field, property: spec.name, problem: 'missing', expected: spec.type, fixable });
+        if (fixable) updates[spec.name] = newPropertySchema(field, spec, pair);
+        continue;
+      }
+
+      if (actual.type !== spec.type) {
+        issues.push({
+          field,
+          property: spec.name,
+          problem: 'wrong-type',
+          expected: spec.type,
+          actual: actual.type,
+          fixable: false
+        });
+        continue;
+      }
+
+      const wanted = requiredOptions(field, pair);
+      if (spec.type === 'select' && wanted) {
+        const existing: { name: string }[] = actual.select?.options ?? [];
+        const missing = wanted.filter((w) => !existing.some((o) => o.name === w));
+        if (missing.length) {
+          issues.push({
+            field,
+            property: spec.name,
+            problem: 'missing-options',
+            expected: missing.join(', '),
+            actual: existing.map((o) => o.name).join(', ') || '(none)',
+            fixable: true
+          });
+          // options left out of the list would be removed, so resend the existing ones
+          updates[spec.name] = {
+            select: { options: [...existing.map((o) => ({ name: o.name })), ...missing.map((name) => ({ name }))] }
+          };
+        }
+      }
+    }
+
+    // properties fed by tag routes (reported under the tags field)
+    for (const route of pair.mapping.tags ? pair.tagRules.routes : []) {
+      if (seen.has(`route:${route.property}`)) continue;
+      seen.add(`route:${route.property}`);
+
+      const actual = props[route.property];
+      if (!actual) {
+        issues.push({
+          field: 'tags',
+          property: route.property,
+          problem: 'missing',
+          expected: route.type,
+          fixable: true
+        });
+        updates[route.property] =
+          route.type === 'relation'
+            ? { relation: { database_id: route.database, single_property: {} } }
+            : { [route.type]: {} };
+      } else if (actual.type !== route.type) {
+        issues.push({
+          field: 'tags',
+          property: route.property,
+          problem: 'wrong-type',
+          expected: route.type,
+          actual: actual.type,
+          fixable: false
+        });
+      }
+    }
+  }
+
+  if (fix && Object.keys(updates).length) {
+    await notion.databases.update({ database_id: databaseId, properties: updates });
+    for (const issue of issues) if (issue.fixable) issue.fixed = true;
+  }
+
+  return {
+    notionDatabaseId: databaseId,
+    pairs: group.map((p) => p.name),
+    ok: issues.every((i) => i.fixed),
+    checked: seen.size,
+    issues
+  };
+}
+
+/**
+ * Check a database the sync owns outright (Collections, Sync Log) against a
+ * fixed column list; `fix` creates the missing ones. Relations point back at
+ * the same database.
+ */
+export async function checkFixedSchema(
+  databaseId: string,
+  specs: PropertySpec[],
+  field: SchemaIssue['field'],
+  { fix = false }: { fix?: boolean } = {}
+): Promise<SchemaReport> {
+  const db: any = await notion.databases.retrieve({ database_id: databaseId });
+  const props: Record<string, any> = db?.properties ?? {};
+  const issues: SchemaIssue[] = [];
+  const updates: Record<string, any> = {};
+
+  for (const spec of specs) {
+    const actual = props[spec.name];
+    if (!actual) {
+      issues.push({ field, property: spec.name, problem: 'missing', expected: spec.type, fixable: true });
+      updates[spec.name] =
+        spec.type === 'relation'
+          ? { relation: { database_id: databaseId, single_property: {} } }
+          : { [spec.type]: {} };
+    } else if (actual.type !== spec.type) {
+      issues.push({
+        field,
+        property: spec.name,
+        problem: 'wrong-type',
+        expected: spec.type,
+        actual: actual.type,
+        fixable: false
+      });
+    }
+  }
+
+  if (fix && Object.keys(updates).length) {
+    await notion.databases.update({ database_id: databaseId, properties: updates });
+    for (const issue of issues) if (issue.fixable) issue.fixed = true;
+  }
+  return {
+    notionDatabaseId: databaseId,
+    pairs: [],
+    ok: issues.every((i) => i.fixed),
+    checked: specs.length,
+    issues
+  };
+}
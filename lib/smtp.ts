@@ -0,0 +1,152 @@
+// lib/smtp.ts
+// Just enough SMTP to send a plain-text alert: implicit TLS (smtps://, port 465)
+// or STARTTLS when the server offers it (smtp://, port 587), AUTH PLAIN.
+// Credentials are never sent over a connection that isn't encrypted.
+import { connect as netConnect, type Socket } from 'node:net';
+import { connect as tlsConnect } from 'node:tls';
+import { hostname } from 'node:os';
+
+const SMTP_TIMEOUT_MS = 15_000;
+
+type Reply = { code: number; lines: string[] };
+
+export type Mail = { from: string; to: string[]; subject: string; text: string };
+
+function open(host: string, port: number, secure: boolean): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket: Socket = secure
+      ? tlsConnect({ host, port, servername: host }, () => resolve(socket))
+      : netConnect({ host, port }, () => resolve(socket));
+    socket.once('error', reject);
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP timeout')));
+  });
+}
+
+function upgrade(socket: Socket, host: string): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const secured = tlsConnect({ socket, servername: host }, () => resolve(secured));
+    secured.once('error', reject);
+    secured.setTimeout(SMTP_TIMEOUT_MS, () => secured.destroy(new Error('SMTP timeout')));
+  });
+}
+
+// Multi-line replies ("250-…" … "250 …") arrive as one Reply
+function replyReader(socket: Socket) {
+  let buffer = '';
+  let lines: string[] = [];
+  const queue: Reply[] = [];
+  let pending: { resolve: (r: Reply) => void; reject: (e: Error) => void } | undefined;
+  let failure: Error | undefined;
+
+  const onData = (chunk: Buffer | string) => {
+    buffer += chunk.toString('utf8');
+    let i: number;
+    while ((i = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, i);
+      buffer = buffer.slice(i + 2);
+      lines.push(line);
+      if (line[3] === '-') continue;
+      const reply = { code: parseInt(line.slice(0, 3), 10), lines };
+      lines = [];
+      if (pending) {
+        pending.resolve(reply);
+        pending = undefined;
+      } else queue.push(reply);
+    }
+  };
+  const onEnd = (e?: Error) => {
+    failure = e ?? new Error('SMTP connection closed');
+    pending?.reject(failure);
+    pending = undefined;
+  };
+  const onClose = () => onEnd();
+  socket.on('data', onData);
+  socket.on('error', onEnd);
+  socket.on('close', onClose);
+
+  return {
+    next(): Promise<Reply> {
+      if (queue.length) return Promise.resolve(queue.shift()!);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => (pending = { resolve, reject }));
+    },
+    detach() {
+      socket.off('data', onData);
+      socket.off('error', onEnd);
+      socket.off('close', onClose);
+    }
+  };
+}
+
+/** The bare address of `Name <addr>` (or `addr`), for MAIL FROM / RCPT TO. */
+export function envelopeAddress(s: string) {
+  const m = /<([^<>]*)>\s*$/.exec(s);
+  return (m ? m[1] : s).trim();
+}
+
+// RFC 2047 for non-ASCII subjects
+function encodeHeader(s: string) {
+  return /^[\x20-\x7e]*$/.test(s) ? s : `=?UTF-8?B?${Buffer.from(s, 'utf8').toString('base64')}?=`;
+}
+
+function message(mail: Mail) {
+  const body = Buffer.from(mail.text.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64');
+  return [
+    `From: ${mail.from}`,
+    `To: ${mail.to.join(', ')}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...(body.match(/.{1,76}/g) ?? [])
+  ].join('\r\n');
+}
+
+/** Send one message through `smtpUrl` (`smtp[s]://user:pass@host:port`). */
+export async function sendMail(smtpUrl: string, mail: Mail) {
+  const url = new URL(smtpUrl);
+  const secure = url.protocol === 'smtps:';
+  const host = url.hostname;
+  const port = Number(url.port) || (secure ? 465 : 587);
+
+  let socket = await open(host, port, secure);
+  let reader = replyReader(socket);
+  const command = async (line: string | undefined, expectClass: number) => {
+    if (line !== undefined) socket.write(line + '\r\n');
+    const reply = await reader.next();
+    if (Math.floor(reply.code / 100) !== expectClass) {
+      const verb = line?.split(' ')[0] ?? 'greeting';
+      throw new Error(`SMTP ${verb}: ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  };
+
+  try {
+    await command(undefined, 2);
+    const ehlo = await command(`EHLO ${hostname()}`, 2);
+    let encrypted = secure;
+    if (!secure && ehlo.lines.some((l) => /\bSTARTTLS\b/i.test(l))) {
+      await command('STARTTLS', 2);
+      reader.detach();
+      socket = await upgrade(socket, host);
+      reader = replyReader(socket);
+      encrypted = true;
+      await command(`EHLO ${hostname()}`, 2);
+    }
+    if (url.username) {
+      if (!encrypted) throw new Error(`SMTP: ${host} doesn't offer STARTTLS; not sending credentials in the clear (use smtps://)`);
+      const user = decodeURIComponent(url.username);
+      const pass = decodeURIComponent(url.password);
+      await command(`AUTH PLAIN ${Buffer.from(`\0${user}\0${pass}`, 'utf8').toString('base64')}`, 2);
+    }
+    await command(`MAIL FROM:<${envelopeAddress(mail.from)}>`, 2);
+    for (const to of mail.to) await command(`RCPT TO:<${envelopeAddress(to)}>`, 2);
+    await command('DATA', 3);
+    await command(`${message(mail)}\r\n.`, 2);
+    await command('QUIT', 2).catch(() => undefined);
+  } finally {
+    socket.destroy();
+  }
+}
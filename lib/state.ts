@@ -0,0 +1,166 @@
+// lib/state.ts
+import { readFile, writeFile, rename, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+// Small key/value store for anything that must survive between runs.
+export interface StateStore {
+  readonly kind: string;
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Take `key` for `ttlSec` seconds; false if it's already taken (atomic on KV). */
+  claim(key: string, ttlSec: number): Promise<boolean>;
+}
+
+// claim() bookkeeping for stores without expiry: key → expiry (epoch seconds)
+type Claims = Record<string, number>;
+const CLAIMS_KEY = 'claims';
+
+function takeClaim(claims: Claims, key: string, ttlSec: number) {
+  const nowSec = Math.floor(Date.now() / 1000);
+  for (const [k, until] of Object.entries(claims)) if (until <= nowSec) delete claims[k];
+  if (claims[key]) return false;
+  claims[key] = nowSec + ttlSec;
+  return true;
+}
+
+// ------- file backend (local / self-hosted) -------
+export function fileStateStore(path: string): StateStore {
+  async function readAll(): Promise<Record<string, unknown>> {
+    try {
+      return JSON.parse(await readFile(path, 'utf8'));
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') return {};
+      throw e;
+    }
+  }
+
+  // write-then-rename so a crash never leaves a half-written file
+  async function writeAll(data: Record<string, unknown>) {
+    await mkdir(dirname(path), { recursive: true });
+    const tmp = `${path}.tmp`;
+    await writeFile(tmp, JSON.stringify(data, null, 2));
+    await rename(tmp, path);
+  }
+
+  return {
+    kind: 'file',
+    async get<T>(key: string) {
+      return (await readAll())[key] as T | undefined;
+    },
+    async set<T>(key: string, value: T) {
+      const data = await readAll();
+      data[key] = value;
+      await writeAll(data);
+    },
+    async delete(key: string) {
+      const data = await readAll();
+      delete data[key];
+      await writeAll(data);
+    },
+    // one process per file, so read-modify-write is enough
+    async claim(key: string, ttlSec: number) {
+      const data = await readAll();
+      const claims = { ...((data[CLAIMS_KEY] as Claims | undefined) ?? {}) };
+      const taken = takeClaim(claims, key, ttlSec);
+      data[CLAIMS_KEY] = claims;
+      await writeAll(data);
+      return taken;
+    }
+  };
+}
+
+// ------- KV backend (Vercel KV / Upstash REST protocol) -------
+export function kvStateStore(url: string, token: string, prefix = 'raindrop-notion:'): StateStore {
+  async function command(args: (string | number)[]) {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(args)
+    });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`KV ${args[0]} failed: ${res.status} ${text}`);
+    }
+    const data = await res.json();
+    return data?.result;
+  }
+
+  return {
+    kind: 'kv',
+    async get<T>(key: string) {
+      const raw = await command(['GET', prefix + key]);
+      return raw == null ? undefined : (JSON.parse(raw) as T);
+    },
+    async set<T>(key: string, value: T) {
+      await command(['SET', prefix + key, JSON.stringify(value)]);
+    },
+    async delete(key: string) {
+      await command(['DEL', prefix + key]);
+    },
+    async claim(key: string, ttlSec: number) {
+      return (await command(['SET', prefix + key, '1', 'NX', 'EX', Math.max(1, Math.ceil(ttlSec))])) === 'OK';
+    }
+  };
+}
+
+// ------- no-op backend (stateless, the original behaviour) -------
+// claim() still works, in this instance's memory only
+const memoryClaims: Claims = {};
+
+export const nullStateStore: StateStore = {
+  kind: 'none',
+  async get() {
+    return undefined;
+  },
+  async set() {},
+  async delete() {},
+  async claim(key: string, ttlSec: number) {
+    return takeClaim(memoryClaims, key, ttlSec);
+  }
+};
+
+/**
+ * STATE_STORE=file|kv|none. Default: kv when KV_REST_API_URL is set, none on
+ * Vercel (read-only filesystem), file (STATE_FILE, default .sync-state.json) elsewhere.
+ */
+export function createStateStore(): StateStore {
+  const kvUrl = process.env.KV_REST_API_URL;
+  const kvToken = process.env.KV_REST_API_TOKEN;
+  const kind = (
+    process.env.STATE_STORE || (kvUrl ? 'kv' : process.env.VERCEL ? 'none' : 'file')
+  ).toLowerCase();
+
+  if (kind === 'kv') {
+    if (!kvUrl || !kvToken) throw new Error('Missing KV_REST_API_URL / KV_REST_API_TOKEN');
+    return kvStateStore(kvUrl, kvToken);
+  }
+  if (kind === 'file') return fileStateStore(process.env.STATE_FILE || '.sync-state.json');
+  if (kind === 'none') return nullStateStore;
+  throw new Error(`Unknown STATE_STORE "${kind}" (use file, kv or none)`);
+}
+
+let cachedStore: StateStore | undefined;
+export function getStateStore(): StateStore {
+  if (!cachedStore) cachedStore = createStateStore();
+  return cachedStore;
+}
+
+// ------- per-pair sync cursor -------
+export type SyncCursor = {
+  cursor: string;           // start time of the last complete run (ISO)
+  maxLastUpdate?: string;   // newest item lastUpdate seen so far
+  updatedAt: string;
+};
+
+const cursorKey = (pairName: string) => `cursor:${pairName}`;
+
+export async function getCursor(store: StateStore, pairName: string) {
+  return store.get<SyncCursor>(cursorKey(pairName));
+}
+export async function setCursor(store: StateStore, pairName: string, value: SyncCursor) {
+  await store.set(cursorKey(pairName), value);
+}
+export async function resetCursor(store: StateStore, pairName: string) {
+  await store.delete(cursorKey(pairName));
+}
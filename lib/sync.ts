@@ -0,0 +1,354 @@
+// lib/sync.ts
+// Incremental sync (reverse pass, Notion-first creates, passes A/B, upsert),
+// independent of the HTTP handler so the CLI can run it too.
+import { fetchRecentRaindrops, fetchRaindropsBySearch, getCollectionTitleById, type RaindropItem } from './raindrop.js';
+import { getPagesByRaindropIds } from './notion.js';
+import { planUpserts, executeUpserts } from './upsert.js';
+import {
+  pushNotionEdits,
+  createRaindropsFromNotion,
+  type ReverseReport,
+  type NotionCreateReport
+} from './reverse.js';
+import { loadSyncPairs, selectPairs, ALL_COLLECTIONS, type SyncPair } from './pairs.js';
+import { getHttpStats, resetHttpStats, setHttpDeadline } from './http.js';
+import { getStateStore, getCursor, setCursor, type StateStore } from './state.js';
+import { syncCollections } from './collections.js';
+import { dedupeLinks } from './duplicates.js';
+
+function newerThan(a?: string, b?: string) {
+  if (!a) return false;
+  if (!b) return true;
+  return new Date(a).getTime() > new Date(b).getTime();
+}
+function isoDateOnly(d: Date) {
+  // YYYY-MM-DD
+  return d.toISOString().slice(0, 10);
+}
+
+// env knobs with defaults
+function envInt(name: string, def: number) {
+  const v = process.env[name];
+  const n = v ? parseInt(v, 10) : NaN;
+  return Number.isFinite(n) ? n : def;
+}
+
+type PairRunOpts = {
+  limit: number;
+  dryRun: boolean;
+  store: StateStore;
+  ignoreCursor: boolean;      // ?full=1 — fall back to the lookback window
+  deadline?: number;          // epoch ms; stop starting new writes after this
+};
+
+// Run both passes + upsert for a single collection → database pair
+export async function syncPair(
+  pair: SyncPair,
+  { limit: limitQP, dryRun, store, ignoreCursor, deadline }: PairRunOpts
+) {
+    // scan knobs
+    const LOOKBACK_HOURS = pair.lookbackHours;
+    const OVERLAP_MINUTES = pair.overlapMinutes;
+    const PER_PAGE = envInt('PER_PAGE', 50);
+    const MAX_PAGES = envInt('MAX_PAGES', 10);
+    const CONSECUTIVE_HITS_STOP = envInt('CONSECUTIVE_HITS_STOP', 50);
+
+    // time window: from the saved cursor when we have one, else the lookback window.
+    // Either way OVERLAP_MINUTES is subtracted to absorb clock skew.
+    const now = new Date();
+    const saved = ignoreCursor ? undefined : await getCursor(store, pair.name);
+    const windowStartMs = saved
+      ? new Date(saved.cursor).getTime()
+      : now.getTime() - LOOKBACK_HOURS * 60 * 60 * 1000;
+    const since = new Date(windowStartMs - OVERLAP_MINUTES * 60 * 1000);
+    // Raindrop search is date-only and `>` excludes the day itself, so ask for
+    // one extra day and trim client-side.
+    const sinceDateOnly = isoDateOnly(new Date(since.getTime() - 24 * 60 * 60 * 1000));
+    let truncated = false;
+
+    // Resolve default collection title once ("all collections" has none)
+    const defaultCollectionTitle =
+      pair.collectionId === ALL_COLLECTIONS
+        ? undefined
+        : (await getCollectionTitleById(pair.collectionId).catch(() => undefined)) ?? undefined;
+
+    // ---- REVERSE: push Notion edits back first so the forward pass sees them ----
+    let reverse: ReverseReport | undefined;
+    if (pair.reverse) {
+      reverse = await pushNotionEdits(pair, { sinceIso: since.toISOString(), dryRun });
+    }
+
+    // ---- NOTION-FIRST: rows with a URL but no Raindrop ID become raindrops ----
+    let fromNotion: NotionCreateReport | undefined;
+    if (pair.createFromNotion) {
+      fromNotion = await createRaindropsFromNotion(pair, { dryRun });
+    }
+
+    // ---- PASS A: recent by created desc with stop rules ----
+    const passAItems = new Map<number, RaindropItem>();
+    let consecutiveExisting = 0;
+    let pagesFetchedA = 0;
+    let stopReasonA: string | null = null;
+
+    // Allow a dev-time limit (if user passed ?limit=) to cap the first page, else use PER_PAGE
+    const perPageA = limitQP && limitQP < PER_PAGE ? limitQP : PER_PAGE;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const pageItems = await fetchRecentRaindrops(pair.collectionId, perPageA, page);
+      pagesFetchedA++;
+
+      if (pageItems.length === 0) {
+        stopReasonA = 'no-more-items';
+        break;
+      }
+
+      // We need existence info to advance "consecutive existing" safely.
+      const existingMap = await getPagesByRaindropIds(pair, pageItems.map((i) => i._id));
+
+      for (const it of pageItems) {
+        const createdOld = new Date(it.created) < since;
+
+        if (existingMap.has(it._id)) {
+          consecutiveExisting++;
+        } else {
+          consecutiveExisting = 0;
+        }
+
+        // Only keep items inside our time window (new creates by created)
+        if (!createdOld) {
+          passAItems.set(it._id, it);
+        }
+
+        // Stop condition: once we’re past the window *and* have many consecutive hits, bail
+        if (createdOld && consecutiveExisting >= CONSECUTIVE_HITS_STOP) {
+          stopReasonA = 'time-window-and-consecutive-existing';
+          break;
+        }
+      }
+
+      if (stopReasonA) break;
+
+      // If this page returned less than requested, likely at the end
+      if (pageItems.length < perPageA) {
+        stopReasonA = 'short-final-page';
+        break;
+      }
+
+      // If user forced a small limit via ?limit=, stop after first page
+      if (limitQP && limitQP <= PER_PAGE) {
+        stopReasonA = 'debug-limit';
+        break;
+      }
+    }
+
+    // ---- PASS B: union of updated items (and created since for completeness) ----
+    // We'll run two searches and union the results by ID.
+    // Use YYYY-MM-DD date-only filter for robustness.
+    const passBItems = new Map<number, RaindropItem>();
+    let pagesFetchedB = 0;
+
+    // lastUpdate since
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const pageItems = await fetchRaindropsBySearch(
+        pair.collectionId,
+        `lastUpdate:>${sinceDateOnly}`,
+        PER_PAGE,
+        page,
+        '-created'
+      );
+      pagesFetchedB++;
+      if (pageItems.length === 0) break;
+      for (const it of pageItems) {
+        if (!newerThan(it.lastUpdate || it.created, since.toISOString())) continue;
+        passBItems.set(it._id, it);
+      }
+      if (pageItems.length < PER_PAGE) break;
+      if (page === MAX_PAGES - 1) truncated = true;
+    }
+
+    // created since (some APIs evaluate search differently; grab both and union)
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const pageItems = await fetchRaindropsBySearch(
+        pair.collectionId,
+        `created:>${sinceDateOnly}`,
+        PER_PAGE,
+        page,
+        '-created'
+      );
+      pagesFetchedB++;
+      if (pageItems.length === 0) break;
+      for (const it of pageItems) {
+        if (!newerThan(it.lastUpdate || it.created, since.toISOString())) continue;
+        passBItems.set(it._id, it);
+      }
+      if (pageItems.length < PER_PAGE) break;
+      if (page === MAX_PAGES - 1) truncated = true;
+    }
+
+    // ---- UNION: candidates from both passes ----
+    const candidates = new Map<number, RaindropItem>();
+    for (const [id, it] of passAItems) candidates.set(id, it);
+    for (const [id, it] of passBItems) candidates.set(id, it);
+
+    // If user passed ?limit=, keep it a hard cap for safety/debug
+    const candidateList = Array.from(candidates.values()).slice(0, limitQP || candidates.size);
+    if (candidateList.length < candidates.size) truncated = true;
+
+    // ---- Decide create vs update (respect Lock; update only if lastUpdate newer) ----
+    const plan = await planUpserts(pair, candidateList);
+    const { tasks, skippedLocked, skippedConflict, alreadyExists } = plan;
+
+    const toCreatePreview = tasks.filter((t) => t.op === 'create').map((t) => t.item._id);
+    const toUpdatePreview = tasks.filter((t) => t.op === 'update').map((t) => t.item._id);
+
+    // ---- WRITE: bounded worker pool; failures are recorded, not fatal ----
+    const writes = dryRun
+      ? { createdIds: [], updatedIds: [], unchangedIds: [], changes: [], failed: [], remaining: 0, stoppedEarly: false }
+      : await executeUpserts(pair, tasks, { deadline, defaultCollectionTitle });
+    const { createdIds, updatedIds, unchangedIds, changes, failed } = writes;
+    const created = createdIds.length;
+    const updated = updatedIds.length;
+
+    // anything failed or left over must be retried next run
+    if (writes.stoppedEarly || failed.length) truncated = true;
+
+    // ---- DUPLICATES: rows sharing a canonical URL with what was just written ----
+    // never fails the pair; reconcile rescans the whole DB anyway
+    let duplicates: any;
+    if (pair.duplicates !== 'off' && tasks.length) {
+      try {
+        duplicates = await dedupeLinks(pair, tasks.map((t) => t.item.link), { dryRun });
+      } catch (e: any) {
+        duplicates = { error: e?.message || 'Error' };
+      }
+    }
+
+    // ---- CURSOR: advance only after a complete, real run ----
+    // A truncated run keeps the old cursor so the next run picks up the rest.
+    let maxLastUpdate = saved?.maxLastUpdate;
+    for (const it of candidateList) {
+      const last = it.lastUpdate || it.created;
+      if (newerThan(last, maxLastUpdate)) maxLastUpdate = last;
+    }
+    const advanceCursor = !dryRun && !truncated;
+    if (advanceCursor) {
+      await setCursor(store, pair.name, {
+        cursor: now.toISOString(),
+        maxLastUpdate,
+        updatedAt: new Date().toISOString()
+      });
+    }
+
+    return {
+      pair: pair.name,
+      raindropCollectionId: pair.collectionId,
+      notionDatabaseId: pair.databaseId,
+      window: {
+        mode: saved ? 'cursor' : 'lookback',
+        lookbackHours: LOOKBACK_HOURS,
+        overlapMinutes: OVERLAP_MINUTES,
+        sinceDate: since.toISOString()
+      },
+      cursor: {
+        store: store.kind,
+        previous: saved?.cursor,
+        advanced: advanceCursor && store.kind !== 'none',
+        truncated
+      },
+      passA: {
+        pagesFetched: pagesFetchedA,
+        stopReason: stopReasonA ?? 'completed',
+        candidates: passAItems.size
+      },
+      passB: {
+        pagesFetched: pagesFetchedB,
+        candidates: passBItems.size
+      },
+      unionCandidates: candidateList.length,
+      created,
+      updated,
+      unchanged: unchangedIds.length,
+      createdIds: dryRun ? undefined : createdIds,
+      updatedIds: dryRun ? undefined : updatedIds,
+      unchangedIds: dryRun ? undefined : unchangedIds,
+      changes: dryRun ? undefined : changes,     // which fields each update touched
+      toCreatePreview: dryRun ? toCreatePreview : undefined,
+      toUpdatePreview: dryRun ? toUpdatePreview : undefined,
+      failed,
+      progress: {
+        planned: dryRun ? 0 : tasks.length,
+        done: created + updated + unchangedIds.length,
+        failed: failed.length,
+        remaining: writes.remaining,
+        stoppedEarly: writes.stoppedEarly
+      },
+      skippedLocked,
+      skippedConflict,
+      alreadyExists,
+      reverse,
+      fromNotion,
+      duplicates
+    };
+}
+
+export type SyncOptions = {
+  pair?: string;              // comma-separated pair names; empty = all
+  limit?: number;             // 0/undefined = no cap
+  dryRun?: boolean;
+  ignoreCursor?: boolean;
+  deadline?: number;          // undefined = no time budget (CLI)
+  store?: StateStore;
+};
+
+/** Run every selected pair; a failing pair doesn't stop the rest. */
+export async function runSync(opts: SyncOptions = {}) {
+  resetHttpStats();
+  setHttpDeadline(opts.deadline);
+  const dryRun = !!opts.dryRun;
+  const pairs = selectPairs(loadSyncPairs(), opts.pair);
+  const store = opts.store ?? getStateStore();
+  const { deadline } = opts;
+
+  // Collections DBs first, so bookmark relations find their pages
+  const collections: any[] = [];
+  for (const databaseId of new Set(pairs.map((p) => p.collectionsDatabaseId).filter(Boolean) as string[])) {
+    try {
+      collections.push({ ok: true, ...(await syncCollections(databaseId, { dryRun })) });
+    } catch (e: any) {
+      collections.push({ ok: false, notionDatabaseId: databaseId, error: e?.message || 'Error' });
+    }
+  }
+
+  const results: any[] = [];
+  for (const pair of pairs) {
+    // out of time: leave whole pairs for the next run rather than get killed mid-write
+    if (deadline && Date.now() >= deadline) {
+      results.push({ ok: true, pair: pair.name, deferred: 'time-budget' });
+      continue;
+    }
+    try {
+      results.push({
+        ok: true,
+        ...(await syncPair(pair, {
+          limit: opts.limit ?? 0,
+          dryRun,
+          store,
+          ignoreCursor: !!opts.ignoreCursor,
+          deadline
+        }))
+      });
+    } catch (e: any) {
+      results.push({ ok: false, pair: pair.name, error: e?.message || 'Error' });
+    }
+  }
+
+  const failed = results.filter((r) => !r.ok).length;
+  return {
+    ok: failed === 0,
+    allFailed: failed > 0 && failed === results.length,
+    dryRun,
+    http: getHttpStats(),
+    collections: collections.length ? collections : undefined,
+    pairs: results
+  };
+}
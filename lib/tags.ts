@@ -0,0 +1,180 @@
+// lib/tags.ts
+// Raindrop tags → Notion: aliases, denylist, nested tags, case folding and
+// routing of some tags into their own select / relation properties.
+import { readFileSync } from 'node:fs';
+
+export type TagRouteType = 'select' | 'multi_select' | 'rich_text' | 'relation';
+
+export type TagRoute = {
+  match: string;            // exact tag, "prefix/*" or "/regex/" (first capture group is the value)
+  property: string;         // Notion property that receives the value
+  type: TagRouteType;
+  database?: string;        // relation only: database whose page titles are matched
+  create?: boolean;         // relation only: create a page when no title matches
+  keep?: boolean;           // also keep the tag in Tags
+};
+
+export type TagRules = {
+  case: 'keep' | 'lower' | 'title';
+  aliases: Record<string, string>;        // lower-cased alias → canonical tag (used verbatim)
+  deny: string[];                         // same pattern syntax as TagRoute.match
+  hierarchy: 'keep' | 'leaf' | 'expand';  // "dev/frontend" → as is | "frontend" | "dev", "dev/frontend"
+  separator: string;
+  routes: TagRoute[];
+};
+
+export const DEFAULT_TAG_RULES: TagRules = {
+  case: 'keep',
+  aliases: {},
+  deny: [],
+  hierarchy: 'keep',
+  separator: '/',
+  routes: []
+};
+
+const CASES: TagRules['case'][] = ['keep', 'lower', 'title'];
+const HIERARCHY: TagRules['hierarchy'][] = ['keep', 'leaf', 'expand'];
+const ROUTE_TYPES: TagRouteType[] = ['select', 'multi_select', 'rich_text', 'relation'];
+
+// Notion rejects commas in option names and caps them at 100 characters
+const NOTION_OPTION_MAX = 100;
+
+/**
+ * Merge partial rules over the defaults and validate them.
+ * Accepts `{ "case": "lower", "aliases": { "js": "javascript" }, "deny": ["tmp/*"] }`.
+ */
+export function parseTagRules(raw: unknown): TagRules {
+  if (raw == null) return { ...DEFAULT_TAG_RULES };
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error('Tag rules must be a JSON object');
+  const r = raw as Record<string, any>;
+
+  const rules: TagRules = {
+    case: r.case ?? DEFAULT_TAG_RULES.case,
+    aliases: {},
+    deny: Array.isArray(r.deny) ? r.deny.map(String) : [],
+    hierarchy: r.hierarchy ?? DEFAULT_TAG_RULES.hierarchy,
+    separator: r.separator ? String(r.separator) : DEFAULT_TAG_RULES.separator,
+    routes: []
+  };
+  if (!CASES.includes(rules.case)) throw new Error(`Tag rules: unknown case "${rules.case}" (use ${CASES.join(', ')})`);
+  if (!HIERARCHY.includes(rules.hierarchy)) {
+    throw new Error(`Tag rules: unknown hierarchy "${rules.hierarchy}" (use ${HIERARCHY.join(', ')})`);
+  }
+
+  for (const [alias, canonical] of Object.entries(r.aliases ?? {})) {
+    rules.aliases[alias.trim().toLowerCase()] = String(canonical);
+  }
+
+  for (const [i, route] of ((r.routes ?? []) as any[]).entries()) {
+    if (!route?.match || !route?.property) throw new Error(`Tag rules: routes[${i}] needs match and property`);
+    const type = (route.type ?? 'select') as TagRouteType;
+    if (!ROUTE_TYPES.includes(type)) {
+      throw new Error(`Tag rules: routes[${i}] cannot be of type "${type}" (allowed: ${ROUTE_TYPES.join(', ')})`);
+    }
+    if (type === 'relation' && !route.database) throw new Error(`Tag rules: routes[${i}] relation needs a database`);
+    rules.routes.push({
+      match: String(route.match),
+      property: String(route.property),
+      type,
+      database: route.database ? String(route.database) : undefined,
+      create: !!route.create,
+      keep: !!route.keep
+    });
+  }
+  return rules;
+}
+
+/**
+ * Load rules from TAG_RULES (inline JSON) or TAG_RULES_FILE (path).
+ * Falls back to DEFAULT_TAG_RULES (tags pass through) when neither is set.
+ */
+export function loadTagRulesFromEnv(): TagRules {
+  const inline = process.env.TAG_RULES;
+  if (inline) return parseTagRules(JSON.parse(inline));
+
+  const file = process.env.TAG_RULES_FILE;
+  if (file) return parseTagRules(JSON.parse(readFileSync(file, 'utf8')));
+
+  return { ...DEFAULT_TAG_RULES };
+}
+
+let cachedRules: TagRules | undefined;
+export function getTagRules(): TagRules {
+  if (!cachedRules) cachedRules = loadTagRulesFromEnv();
+  return cachedRules;
+}
+
+// ------- matching -------
+/** The value a pattern extracts from `tag`, or undefined when it doesn't match. */
+function matchTag(pattern: string, tag: string): string | undefined {
+  const re = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (re) {
+    const m = tag.match(new RegExp(re[1], re[2] || 'i'));
+    return m ? m[1] ?? m[0] : undefined;
+  }
+  if (pattern.endsWith('*')) {
+    const prefix = pattern.slice(0, -1).toLowerCase();
+    return tag.toLowerCase().startsWith(prefix) ? tag.slice(prefix.length) : undefined;
+  }
+  return tag.toLowerCase() === pattern.toLowerCase() ? tag : undefined;
+}
+
+function foldCase(tag: string, mode: TagRules['case']) {
+  if (mode === 'lower') return tag.toLowerCase();
+  if (mode === 'title') return tag.toLowerCase().replace(/(^|[\s\-_/])(\p{L})/gu, (_, a, b) => a + b.toUpperCase());
+  return tag;
+}
+
+// What Notion accepts as an option name
+function notionSafe(tag: string) {
+  return tag.replace(/,/g, ' ').replace(/\s+/g, ' ').trim().slice(0, NOTION_OPTION_MAX);
+}
+
+// first spelling wins; comparison ignores case
+function pushUnique(list: string[], value: string) {
+  const v = notionSafe(value);
+  if (v && !list.some((x) => x.toLowerCase() === v.toLowerCase())) list.push(v);
+}
+
+export type TagResult = {
+  tags: string[];                                   // what goes into the mapped Tags property
+  routed: { route: TagRoute; values: string[] }[];  // one entry per configured route, possibly empty
+  notInTags: string[];                              // raw tags denied or routed away (not in Tags)
+};
+
+/** Run Raindrop tags through the rules: alias → deny → route → hierarchy → case. */
+export function applyTagRules(raw: string[] = [], rules: TagRules = DEFAULT_TAG_RULES): TagResult {
+  const out: TagResult = { tags: [], routed: rules.routes.map((route) => ({ route, values: [] })), notInTags: [] };
+
+  for (const original of raw) {
+    const trimmed = original.trim();
+    if (!trimmed) continue;
+
+    const alias = rules.aliases[trimmed.toLowerCase()];
+    const tag = alias ?? trimmed;
+    if (rules.deny.some((p) => matchTag(p, tag) !== undefined)) {
+      out.notInTags.push(original);
+      continue;
+    }
+
+    const hit = out.routed.find((r) => matchTag(r.route.match, tag) !== undefined);
+    if (hit) {
+      const value = matchTag(hit.route.match, tag)!;
+      pushUnique(hit.values, alias ? value : foldCase(value, rules.case));
+      if (!hit.route.keep) {
+        out.notInTags.push(original);
+        continue;
+      }
+    }
+
+    const parts = tag.split(rules.separator).map((s) => s.trim()).filter(Boolean);
+    const expanded =
+      parts.length < 2 || rules.hierarchy === 'keep'
+        ? [tag]
+        : rules.hierarchy === 'leaf'
+          ? [parts[parts.length - 1]]
+          : parts.map((_, i) => parts.slice(0, i + 1).join(rules.separator));
+    for (const t of expanded) pushUnique(out.tags, alias ? t : foldCase(t, rules.case));
+  }
+  return out;
+}
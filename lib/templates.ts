@@ -0,0 +1,140 @@
+// lib/templates.ts
+// Page body template for newly created bookmarks: JSON blocks or a Notion page
+// to copy, with {{placeholders}} filled from the raindrop. Applied on create
+// only, so whatever users write in the body later is never overwritten.
+import { readFileSync } from 'node:fs';
+
+import type { RaindropItem } from './raindrop.js';
+import { listChildBlocks } from './notion.js';
+import { NOTION_TEXT_LIMIT } from './richtext.js';
+
+export type PageTemplate = { blocks: any[] } | { pageId: string };
+
+// Notion takes two levels of nested children in one create call
+const MAX_TEMPLATE_DEPTH = 2;
+
+// Blocks that can't be recreated through the API (or would copy whole pages)
+const SKIPPED_TYPES = new Set(['child_page', 'child_database', 'unsupported', 'synced_block', 'template']);
+
+// Block types that are useless once their URL placeholder came out empty
+const URL_BLOCKS = new Set(['bookmark', 'embed', 'link_preview', 'video', 'image', 'pdf', 'file', 'audio']);
+
+/**
+ * Accepts an array of Notion blocks, `{ "blocks": [...] }`, or a template page:
+ * `"<page id>"` / `{ "pageId": "<page id>" }`.
+ */
+export function parsePageTemplate(raw: unknown): PageTemplate | undefined {
+  if (raw == null || raw === '') return undefined;
+  if (typeof raw === 'string') return { pageId: raw.trim() };
+  if (Array.isArray(raw)) return { blocks: raw };
+  const r = raw as Record<string, any>;
+  if (typeof r.pageId === 'string' && r.pageId) return { pageId: r.pageId.trim() };
+  if (Array.isArray(r.blocks)) return { blocks: r.blocks };
+  throw new Error('Page template must be an array of blocks, { "blocks": [...] } or a template page ID');
+}
+
+/**
+ * Load the template from PAGE_TEMPLATE (inline JSON), PAGE_TEMPLATE_FILE (path)
+ * or PAGE_TEMPLATE_PAGE_ID. No template when none is set.
+ */
+export function loadPageTemplateFromEnv(): PageTemplate | undefined {
+  const inline = process.env.PAGE_TEMPLATE;
+  if (inline) return parsePageTemplate(JSON.parse(inline));
+
+  const file = process.env.PAGE_TEMPLATE_FILE;
+  if (file) return parsePageTemplate(JSON.parse(readFileSync(file, 'utf8')));
+
+  return parsePageTemplate(process.env.PAGE_TEMPLATE_PAGE_ID);
+}
+
+let cachedTemplate: PageTemplate | undefined | null = null;
+export function getPageTemplate(): PageTemplate | undefined {
+  if (cachedTemplate === null) cachedTemplate = loadPageTemplateFromEnv();
+  return cachedTemplate;
+}
+
+// ------- template page -------
+const templatePageCache = new Map<string, Promise<any[]>>();
+
+// A listed block → the payload that recreates it (ids, timestamps etc. dropped)
+function creatableBlock(block: any): any | undefined {
+  const type = block?.type;
+  if (!type || SKIPPED_TYPES.has(type)) return undefined;
+  const body = { ...(block[type] ?? {}) };
+  // Notion-hosted files are signed URLs that expire within the hour
+  if (body.type === 'file') return undefined;
+  return { object: 'block', type, [type]: body };
+}
+
+async function copyChildren(blockId: string, depth: number): Promise<any[]> {
+  const out: any[] = [];
+  for (const block of await listChildBlocks(blockId)) {
+    const copy = creatableBlock(block);
+    if (!copy) continue;
+    if (block.has_children && depth < MAX_TEMPLATE_DEPTH) {
+      copy[copy.type].children = await copyChildren(block.id, depth + 1);
+    }
+    out.push(copy);
+  }
+  return out;
+}
+
+/** The template page's blocks, read once per process. */
+function templatePageBlocks(pageId: string) {
+  if (!templatePageCache.has(pageId)) {
+    const p = copyChildren(pageId, 1);
+    p.catch(() => templatePageCache.delete(pageId)); // retry on the next create
+    templatePageCache.set(pageId, p);
+  }
+  return templatePageCache.get(pageId)!;
+}
+
+// ------- placeholders -------
+const PLACEHOLDER_RE = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+/** Values for {{title}}, {{link}}, {{tags}} … ; dates are YYYY-MM-DD. */
+export function placeholderValues(item: RaindropItem, collectionTitle = ''): Record<string, string> {
+  return {
+    id: String(item._id),
+    title: item.title ?? '',
+    link: item.link ?? '',
+    domain: item.domain ?? '',
+    excerpt: item.excerpt ?? '',
+    note: item.note ?? '',
+    tags: (item.tags ?? []).join(', '),
+    collection: collectionTitle,
+    created: item.created?.slice(0, 10) ?? '',
+    reminder: item.reminder?.slice(0, 10) ?? '',
+    type: item.type ?? '',
+    cover: item.cover ?? ''
+  };
+}
+
+// Deep copy with placeholders replaced; unknown names are kept as written
+function fill(value: any, values: Record<string, string>, key?: string): any {
+  if (typeof value === 'string') {
+    const out = value.replace(PLACEHOLDER_RE, (all, name) => values[name] ?? all);
+    return key === 'content' || key === 'plain_text' ? out.slice(0, NOTION_TEXT_LIMIT) : out;
+  }
+  if (Array.isArray(value)) return value.map((v) => fill(v, values)).filter((v) => v !== undefined);
+  if (value && typeof value === 'object') {
+    if (URL_BLOCKS.has(value.type) && value[value.type]) {
+      const url = value[value.type].url ?? value[value.type].external?.url;
+      if (typeof url === 'string' && !fill(url, values).trim()) return undefined;
+    }
+    const out: Record<string, any> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = fill(v, values, k);
+    return out;
+  }
+  return value;
+}
+
+/** Blocks to put at the top of a new page, placeholders filled in. */
+export async function renderPageTemplate(
+  template: PageTemplate,
+  item: RaindropItem,
+  collectionTitle?: string
+): Promise<any[]> {
+  const blocks = 'pageId' in template ? await templatePageBlocks(template.pageId) : template.blocks;
+  return fill(blocks, placeholderValues(item, collectionTitle));
+}
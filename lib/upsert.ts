@@ -0,0 +1,176 @@
+// lib/upsert.ts
+// Decide create vs update for a batch of raindrops and run the writes.
+// Shared by the incremental sync and the backfill.
+import { getCollectionTitleById, type RaindropItem } from './raindrop.js';
+import { getPagesByRaindropIds, createFromRaindrop, updateFromRaindrop, type PageImages } from './notion.js';
+import { runPool } from './pipeline.js';
+import { collectionPageId } from './collections.js';
+import { renderPageTemplate } from './templates.js';
+import { ALL_COLLECTIONS, type SyncPair } from './pairs.js';
+import type { MappedField } from './mapping.js';
+
+function newerThan(a?: string, b?: string) {
+  if (!a) return false;
+  if (!b) return true;
+  return new Date(a).getTime() > new Date(b).getTime();
+}
+function envInt(name: string, def: number) {
+  const v = process.env[name];
+  const n = v ? parseInt(v, 10) : NaN;
+  return Number.isFinite(n) ? n : def;
+}
+
+// One lookup per key; concurrent callers share it, and a failed one is tried
+// again by the next caller
+function once<T>(lookup: (key: string) => Promise<T>) {
+  const pending = new Map<string, Promise<T>>();
+  return (key: string) => {
+    let p = pending.get(key);
+    if (!p) {
+      p = lookup(key);
+      pending.set(key, p);
+      p.catch(() => pending.delete(key));
+    }
+    return p;
+  };
+}
+
+export type WriteTask = {
+  op: 'create' | 'update';
+  item: RaindropItem;
+  pageId?: string;
+  current?: Record<string, any>;   // page properties read while planning (update only)
+  lockedFields?: MappedField[];    // from the page's "Locked Fields"
+  currentImages?: PageImages;      // page cover/icon read while planning
+};
+
+export type UpsertPlan = {
+  tasks: WriteTask[];
+  skippedLocked: number[];
+  skippedConflict: number[];
+  alreadyExists: number[];
+};
+
+/** Look the items up in Notion and decide what to write (respect Lock; update only if lastUpdate newer). */
+export async function planUpserts(pair: SyncPair, items: RaindropItem[]): Promise<UpsertPlan> {
+  const existing = await getPagesByRaindropIds(pair, items.map((i) => i._id));
+  const plan: UpsertPlan = { tasks: [], skippedLocked: [], skippedConflict: [], alreadyExists: [] };
+
+  for (const item of items) {
+    const found = existing.get(item._id);
+
+    if (!found) {
+      plan.tasks.push({ op: 'create', item });
+      continue;
+    }
+
+    if (found.locked) {
+      plan.skippedLocked.push(item._id);
+      plan.alreadyExists.push(item._id);
+      continue;
+    }
+
+    // flagged for review by the reverse pass — hold until a human clears it
+    if (found.conflict) {
+      plan.skippedConflict.push(item._id);
+      plan.alreadyExists.push(item._id);
+      continue;
+    }
+
+    const itemLast = item.lastUpdate || item.created;
+    const notionLast = found.raindropLastUpdate;
+
+    if (newerThan(itemLast, notionLast)) {
+      plan.tasks.push({
+        op: 'update',
+        item,
+        pageId: found.pageId,
+        current: found.properties,
+        lockedFields: found.lockedFields,
+        currentImages: found.images
+      });
+    } else {
+      plan.alreadyExists.push(item._id);
+    }
+  }
+  return plan;
+}
+
+export type UpsertResult = {
+  createdIds: number[];
+  updatedIds: number[];        // something actually changed
+  unchangedIds: number[];      // newer lastUpdate, same content: nothing sent
+  changes: { raindropId: number; fields: string[] }[];
+  failed: { raindropId: number; op: WriteTask['op']; error: string }[];
+  remaining: number;
+  stoppedEarly: boolean;
+};
+
+/**
+ * Run the planned writes through the bounded worker pool. Failures are
+ * recorded per item; nothing new starts once `deadline` has passed.
+ */
+export async function executeUpserts(
+  pair: SyncPair,
+  tasks: WriteTask[],
+  { deadline, defaultCollectionTitle }: { deadline?: number; defaultCollectionTitle?: string }
+): Promise<UpsertResult> {
+  // Collection title (and relation page) per distinct collection, covering
+  // moved items. Looked up inside the tasks, so the deadline and per-item
+  // failures cover them too.
+  const collIdOf = (item: RaindropItem) =>
+    String((item as any).collectionId ?? item.collection?.$id ?? pair.collectionId);
+  const titleOf = once((collId) => getCollectionTitleById(collId).catch(() => undefined));
+  const collectionsDb = pair.collectionsDatabaseId;
+  // relation mode: link to the Collections DB page instead of writing the title
+  const pageOf = once((collId) => collectionPageId(collectionsDb!, collId));
+
+  const pool = await runPool(
+    tasks,
+    async (t: WriteTask) => {
+      const collId = collIdOf(t.item);
+      const collectionTitle = (await titleOf(collId)) ?? defaultCollectionTitle;
+      const opts = {
+        collectionTitle,
+        highlights: pair.highlights,
+        cover: pair.cover,
+        icon: pair.icon,
+        brokenStatus: pair.brokenStatus,
+        canonicalUrl: pair.duplicates !== 'off',
+        tagRules: pair.tagRules,
+        collectionPageId: collectionsDb && collId !== ALL_COLLECTIONS ? await pageOf(collId) : undefined
+      };
+      if (t.op === 'create') {
+        const templateBlocks = pair.template
+          ? await renderPageTemplate(pair.template, t.item, collectionTitle)
+          : undefined;
+        await createFromRaindrop(pair, t.item, { ...opts, templateBlocks });
+        return undefined;
+      }
+      const res = await updateFromRaindrop(pair, t.pageId!, t.item, {
+        ...opts,
+        current: t.current,
+        lockedFields: t.lockedFields,
+        currentImages: t.currentImages,
+        recordLastUpdate: pair.reverse
+      });
+      const fields: string[] = [...res.changed, ...res.routedChanged, ...res.images];
+      if (res.body.appended || res.body.removed) fields.push('body');
+      return fields;
+    },
+    { concurrency: envInt('WRITE_CONCURRENCY', 3), deadline }
+  );
+
+  const updates = pool.done.filter((d) => d.item.op === 'update');
+  return {
+    createdIds: pool.done.filter((d) => d.item.op === 'create').map((d) => d.item.item._id),
+    updatedIds: updates.filter((d) => d.result?.length).map((d) => d.item.item._id),
+    unchangedIds: updates.filter((d) => !d.result?.length).map((d) => d.item.item._id),
+    changes: updates
+      .filter((d) => d.result?.length)
+      .map((d) => ({ raindropId: d.item.item._id, fields: d.result! })),
+    failed: pool.failed.map((f) => ({ raindropId: f.item.item._id, op: f.item.op, error: f.error })),
+    remaining: pool.remaining.length,
+    stoppedEarly: pool.stoppedEarly
+  };
+}
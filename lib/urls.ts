@@ -0,0 +1,80 @@
+// lib/urls.ts
+// Canonical form of a bookmark URL, so the same article saved twice (or with
+// different tracking params) is recognised as one.
+
+// Query params that only track where a click came from
+const TRACKING_PARAMS = [/^utm_/i, /^fbclid$/i, /^gclid$/i, /^dclid$/i, /^msclkid$/i, /^mc_[ce]id$/i, /^igshid$/i];
+
+// Redirect wrappers whose target sits in a query param: host (+ path) → param
+const REDIRECTORS: { host: string; path?: string; param: string }[] = [
+  { host: 'google.com', path: '/url', param: 'q' },
+  { host: 'google.com', path: '/url', param: 'url' },
+  { host: 'l.facebook.com', param: 'u' },
+  { host: 'lm.facebook.com', param: 'u' },
+  { host: 'l.instagram.com', param: 'u' },
+  { host: 'out.reddit.com', param: 'url' },
+  { host: 'youtube.com', path: '/redirect', param: 'q' },
+  { host: 'linkedin.com', path: '/redir/redirect', param: 'url' },
+  { host: 'slack-redir.net', param: 'url' },
+  { host: 't.umblr.com', param: 'z' },
+  { host: 'href.li', param: '' } // target is the whole query string
+];
+
+// guards against a redirector pointing at another redirector forever
+const MAX_UNWRAP = 5;
+
+function bareHost(u: URL) {
+  return u.hostname.toLowerCase().replace(/^www\./, '');
+}
+
+// a bad percent-escape leaves the query as it was
+function decodeQuery(query: string) {
+  try {
+    return decodeURIComponent(query);
+  } catch {
+    return query;
+  }
+}
+
+function unwrapRedirect(u: URL): URL | undefined {
+  const host = bareHost(u);
+  for (const r of REDIRECTORS) {
+    if (host !== r.host || (r.path && u.pathname !== r.path)) continue;
+    const target = r.param ? u.searchParams.get(r.param) : decodeQuery(u.search.slice(1));
+    try {
+      if (target) return new URL(target);
+    } catch {
+      // not a URL; keep the wrapper
+    }
+  }
+  return undefined;
+}
+
+/**
+ * https, lower-case host without `www.`, no tracking params, fragment or
+ * trailing slash, remaining params sorted, known redirect wrappers unwrapped.
+ * Anything that doesn't parse comes back trimmed but otherwise unchanged.
+ */
+export function canonicalUrl(url?: string): string {
+  const raw = (url ?? '').trim();
+  let u: URL;
+  try {
+    u = new URL(raw);
+  } catch {
+    return raw;
+  }
+  for (let i = 0; i < MAX_UNWRAP; i++) {
+    const target = unwrapRedirect(u);
+    if (!target) break;
+    u = target;
+  }
+  if (u.protocol !== 'http:' && u.protocol !== 'https:') return raw;
+
+  const params = [...u.searchParams.entries()]
+    .filter(([k]) => !TRACKING_PARAMS.some((re) => re.test(k)))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const query = new URLSearchParams(params).toString();
+  const path = u.pathname.replace(/\/+$/, '');
+  // http and https copies of a page are the same bookmark
+  return `https://${bareHost(u)}${u.port ? `:${u.port}` : ''}${path}${query ? `?${query}` : ''}`;
+}
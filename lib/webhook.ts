@@ -0,0 +1,69 @@
+// lib/webhook.ts
+// HMAC signing + replay protection for inbound push events.
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+import type { StateStore } from './state.js';
+
+export type WebhookAction = 'created' | 'updated' | 'removed';
+
+export type WebhookEvent = {
+  raindropId: number;
+  action: WebhookAction;
+  eventId?: string;
+};
+
+const ACTIONS: WebhookAction[] = ['created', 'updated', 'removed'];
+
+/**
+ * Expected headers:
+ *   X-Webhook-Timestamp: unix seconds
+ *   X-Webhook-Signature: sha256=<hex HMAC-SHA256 of `${timestamp}.${rawBody}`>
+ */
+export function signPayload(secret: string, timestamp: string, rawBody: string) {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+}
+
+export function verifySignature(
+  secret: string,
+  timestamp: string | undefined,
+  signature: string | undefined,
+  rawBody: string,
+  toleranceSec: number
+): { ok: true } | { ok: false; reason: string } {
+  if (!timestamp || !signature) return { ok: false, reason: 'missing signature headers' };
+
+  const ts = Number(timestamp);
+  if (!Number.isFinite(ts)) return { ok: false, reason: 'bad timestamp' };
+  if (Math.abs(Date.now() / 1000 - ts) > toleranceSec) return { ok: false, reason: 'timestamp outside tolerance' };
+
+  const expected = Buffer.from(signPayload(secret, timestamp, rawBody));
+  const given = Buffer.from(signature.trim());
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return { ok: false, reason: 'bad signature' };
+  }
+  return { ok: true };
+}
+
+export function parseWebhookEvent(body: unknown): WebhookEvent {
+  const b = body as any;
+  const raindropId = Number(b?.raindropId ?? b?.raindrop?._id);
+  if (!Number.isInteger(raindropId) || raindropId <= 0) throw new Error('payload needs a numeric raindropId');
+
+  const action = String(b?.action ?? 'updated').toLowerCase() as WebhookAction;
+  if (!ACTIONS.includes(action)) throw new Error(`unknown action "${action}" (use ${ACTIONS.join(', ')})`);
+
+  return { raindropId, action, eventId: b?.eventId != null ? String(b.eventId) : undefined };
+}
+
+// ------- replay protection -------
+// Each signature is claimed in the state store (SET NX on KV, so two
+// concurrent deliveries can't both win; this instance's memory when there is
+// no store) for as long as its timestamp could still pass, and rejected a
+// second time.
+export async function checkAndRememberDelivery(
+  store: StateStore,
+  signature: string,
+  toleranceSec: number
+): Promise<boolean> {
+  return store.claim(`webhook:seen:${signature}`, toleranceSec * 2);
+}
@@ -0,0 +1,91 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+
+// fast buckets and backoff; read when lib/http.ts loads
+process.env.RAINDROP_RPS = '1000';
+process.env.NOTION_RPS = '1000';
+process.env.HTTP_BACKOFF_BASE_MS = '1';
+process.env.HTTP_BACKOFF_MAX_MS = '2';
+
+const { fetchWithRetry, isIdempotent, setHttpDeadline } = await import('../lib/http.js');
+
+const realFetch = globalThis.fetch;
+
+// answers with `statuses` in turn (the last one repeats); counts the calls
+function stubFetch(statuses: number[], headers: Record<string, string> = {}) {
+  const calls = { n: 0 };
+  globalThis.fetch = (async () => {
+    const status = statuses[Math.min(calls.n++, statuses.length - 1)];
+    return new Response(null, { status, headers });
+  }) as typeof fetch;
+  return calls;
+}
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+  setHttpDeadline();
+  delete process.env.HTTP_MAX_RETRIES;
+  delete process.env.HTTP_MAX_WAIT_MS;
+});
+
+test('isIdempotent: safe methods, Notion reads and property PATCHes', () => {
+  assert.ok(isIdempotent('raindrop', 'https://api.raindrop.io/rest/v1/raindrop/1', 'GET'));
+  assert.ok(isIdempotent('raindrop', 'https://api.raindrop.io/rest/v1/raindrop/1', 'put'));
+  assert.ok(!isIdempotent('raindrop', 'https://api.raindrop.io/rest/v1/raindrop', 'POST'));
+  assert.ok(isIdempotent('notion', 'https://api.notion.com/v1/databases/abc/query', 'POST'));
+  assert.ok(!isIdempotent('notion', 'https://api.notion.com/v1/pages', 'POST'));
+  assert.ok(isIdempotent('notion', 'https://api.notion.com/v1/pages/abc', 'PATCH'));
+  assert.ok(!isIdempotent('notion', 'https://api.notion.com/v1/blocks/abc/children', 'PATCH'));
+});
+
+test('a create is not retried on 5xx but is on 429', async () => {
+  let calls = stubFetch([503, 200]);
+  let res = await fetchWithRetry('raindrop', 'https://api.raindrop.io/rest/v1/raindrop', { method: 'POST' });
+  assert.equal(res.status, 503);
+  assert.equal(calls.n, 1);
+
+  calls = stubFetch([429, 200], { 'retry-after': '0' });
+  res = await fetchWithRetry('raindrop', 'https://api.raindrop.io/rest/v1/raindrop', { method: 'POST' });
+  assert.equal(res.status, 200);
+  assert.equal(calls.n, 2);
+});
+
+test('a create is not retried after a network error', async () => {
+  let n = 0;
+  globalThis.fetch = (async () => {
+    n++;
+    throw new TypeError('fetch failed');
+  }) as typeof fetch;
+  await assert.rejects(fetchWithRetry('notion', 'https://api.notion.com/v1/pages', { method: 'POST' }));
+  assert.equal(n, 1);
+});
+
+test('GETs are retried on 5xx; HTTP_MAX_RETRIES=0 turns that off', async () => {
+  let calls = stubFetch([502, 500, 200]);
+  const res = await fetchWithRetry('raindrop', 'https://api.raindrop.io/rest/v1/user');
+  assert.equal(res.status, 200);
+  assert.equal(calls.n, 3);
+
+  process.env.HTTP_MAX_RETRIES = '0';
+  calls = stubFetch([502, 200]);
+  assert.equal((await fetchWithRetry('raindrop', 'https://api.raindrop.io/rest/v1/user')).status, 502);
+  assert.equal(calls.n, 1);
+});
+
+test('Retry-After is capped at HTTP_MAX_WAIT_MS', async () => {
+  process.env.HTTP_MAX_WAIT_MS = '5';
+  const calls = stubFetch([503, 200], { 'retry-after': '3600' });
+  const started = Date.now();
+  const res = await fetchWithRetry('raindrop', 'https://api.raindrop.io/rest/v1/user');
+  assert.equal(res.status, 200);
+  assert.equal(calls.n, 2);
+  assert.ok(Date.now() - started < 1000);
+});
+
+test('no retry wait runs past the deadline', async () => {
+  setHttpDeadline(Date.now() + 50);
+  const calls = stubFetch([503, 200], { 'retry-after': '30' });
+  const res = await fetchWithRetry('raindrop', 'https://api.raindrop.io/rest/v1/user');
+  assert.equal(res.status, 503);
+  assert.equal(calls.n, 1);
+});
@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  DEFAULT_MAPPING,
+  parseMapping,
+  encodeProperty,
+  decodeProperty,
+  comparableProperty,
+  changedFields,
+  readLockedFields,
+  dropLocked,
+  type NotionPropType
+} from '../lib/mapping.js';
+
+test('parseMapping merges over the defaults', () => {
+  const m = parseMapping({ collection: { name: 'Folder', type: 'select' }, excerpt: null, tags: 'Labels' });
+  assert.deepEqual(m.collection, { name: 'Folder', type: 'select' });
+  assert.equal(m.excerpt, null);
+  assert.deepEqual(m.tags, { name: 'Labels', type: 'multi_select' });
+  assert.deepEqual(m.title, DEFAULT_MAPPING.title);
+});
+
+test('parseMapping gives off-by-default fields their first allowed type', () => {
+  assert.deepEqual(parseMapping({ important: 'Favorite' }).important, { name: 'Favorite', type: 'checkbox' });
+});
+
+test('parseMapping rejects unknown fields, bad types and a missing Raindrop ID', () => {
+  assert.throws(() => parseMapping({ nope: 'X' }), /unknown field "nope"/);
+  assert.throws(() => parseMapping({ tags: { name: 'Tags', type: 'number' } }), /cannot be of type "number"/);
+  assert.throws(() => parseMapping({ raindropId: null }), /"raindropId" is required/);
+  assert.throws(() => parseMapping([]), /must be a JSON object/);
+});
+
+test('encodeProperty and decodeProperty round-trip every type', () => {
+  const cases: [NotionPropType, unknown][] = [
+    ['title', 'Hello'],
+    ['rich_text', 'some text'],
+    ['select', 'Reading'],
+    ['multi_select', ['a', 'b']],
+    ['url', 'https://example.com/'],
+    ['date', '2026-10-19T09:00:00.000Z'],
+    ['number', 42],
+    ['checkbox', true],
+    ['relation', ['page-1', 'page-2']],
+    ['files', ['https://example.com/cover.png']]
+  ];
+  for (const [type, value] of cases) {
+    // the API echoes plain_text for text; the payload has text.content — both decode
+    assert.deepEqual(decodeProperty(type, encodeProperty(type, value as any)), value, type);
+  }
+});
+
+test('encodeProperty clears empty values', () => {
+  assert.deepEqual(encodeProperty('select', ''), { select: null });
+  assert.deepEqual(encodeProperty('date', null), { date: null });
+  assert.deepEqual(encodeProperty('url', undefined), { url: null });
+  assert.deepEqual(encodeProperty('relation', null), { relation: [] });
+});
+
+test('comparableProperty ignores order, relation dashes and seconds', () => {
+  assert.equal(
+    comparableProperty('multi_select', encodeProperty('multi_select', ['b', 'a'])),
+    comparableProperty('multi_select', encodeProperty('multi_select', ['a', 'b']))
+  );
+  assert.equal(
+    comparableProperty('relation', encodeProperty('relation', ['1234-5678'])),
+    comparableProperty('relation', encodeProperty('relation', ['12345678']))
+  );
+  assert.equal(
+    comparableProperty('date', encodeProperty('date', '2026-10-19T09:00:12Z')),
+    comparableProperty('date', encodeProperty('date', '2026-10-19T09:00:48.000Z'))
+  );
+});
+
+test('changedFields skips bookkeeping and fields not in the payload', () => {
+  const m = DEFAULT_MAPPING;
+  const current = {
+    Title: encodeProperty('title', 'Same'),
+    Tags: encodeProperty('multi_select', ['a']),
+    'Synced At': encodeProperty('date', '2026-01-01T00:00:00Z')
+  };
+  const next = {
+    Title: encodeProperty('title', 'Same'),
+    Tags: encodeProperty('multi_select', ['a', 'b']),
+    'Synced At': encodeProperty('date', '2026-10-19T00:00:00Z')
+  };
+  assert.deepEqual(changedFields(m, next, current), ['tags']);
+});
+
+test('readLockedFields accepts field keys and property names', () => {
+  const props = { 'Locked Fields': encodeProperty('multi_select', ['notes', 'TAGS', 'unknown']) };
+  assert.deepEqual(readLockedFields(props, DEFAULT_MAPPING).sort(), ['note', 'tags']);
+  const payload = { Notes: {}, Tags: {}, Title: {} };
+  assert.deepEqual(Object.keys(dropLocked(payload, DEFAULT_MAPPING, ['note', 'tags'])), ['Title']);
+});
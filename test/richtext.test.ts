@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  markdownToRichText,
+  richTextToMarkdown,
+  plainRichText,
+  markdownToBlocks,
+  normalizeMarkdown,
+  NOTION_TEXT_LIMIT
+} from '../lib/richtext.js';
+
+test('inline Markdown becomes annotated segments', () => {
+  const rt = markdownToRichText('a **b** `c` [d](https://x.io)');
+  assert.deepEqual(
+    rt.map((t) => [t.text.content, t.annotations ?? {}, t.text.link?.url]),
+    [
+      ['a ', {}, undefined],
+      ['b', { bold: true }, undefined],
+      [' ', {}, undefined],
+      ['c', { code: true }, undefined],
+      [' ', {}, undefined],
+      ['d', {}, 'https://x.io']
+    ]
+  );
+});
+
+test('plain text is split on the segment limit', () => {
+  const rt = plainRichText('x'.repeat(NOTION_TEXT_LIMIT + 5));
+  assert.deepEqual(rt.map((t) => t.text.content.length), [NOTION_TEXT_LIMIT, 5]);
+});
+
+test('markdownToBlocks maps headings, lists, quotes and code', () => {
+  const blocks = markdownToBlocks('# H\n- item\n1. one\n> q\n```\ncode\n```\npara');
+  assert.deepEqual(
+    blocks.map((b) => b.type),
+    ['heading_1', 'bulleted_list_item', 'numbered_list_item', 'quote', 'code', 'paragraph']
+  );
+});
+
+test('Markdown round-trips through rich text', () => {
+  for (const md of [
+    '**a *b* c**',
+    'plain words',
+    '~~gone~~ and `code` and [link](https://x.io)',
+    'foo*bar*baz',
+    '**bold** then _italic_'
+  ]) {
+    const back = richTextToMarkdown(markdownToRichText(md));
+    assert.deepEqual(markdownToRichText(back), markdownToRichText(md), md);
+  }
+});
+
+test('bold nested in a * italic keeps both', () => {
+  const rt = markdownToRichText('*a **b** c*');
+  assert.deepEqual(
+    rt.map((t) => [t.text.content, t.annotations]),
+    [
+      ['a ', { italic: true }],
+      ['b', { italic: true, bold: true }],
+      [' c', { italic: true }]
+    ]
+  );
+  assert.equal(normalizeMarkdown('*a **b** c*'), '_a **b** c_');
+  assert.deepEqual(markdownToRichText('*a \\* b*').map((t) => [t.text.content, t.annotations]), [['a * b', { italic: true }]]);
+});
+
+test('nested annotations render as nested Markdown', () => {
+  assert.equal(normalizeMarkdown('**a *b* c**'), '**a _b_ c**');
+  assert.equal(normalizeMarkdown('see **[bold link](https://y.io)**'), 'see [**bold link**](https://y.io)');
+});
+
+test('plain text with Markdown characters survives rendering and parsing', () => {
+  for (const text of ['use __init__ method', 'a*b*c', '2 * 3 * 4', 'snake_case', '[x](https://q.io)', 'back\\slash', '~~x~~']) {
+    const md = richTextToMarkdown(plainRichText(text));
+    assert.deepEqual(markdownToRichText(md).map((t) => [t.text.content, t.annotations]), [[text, undefined]], text);
+  }
+  assert.equal(richTextToMarkdown(plainRichText('snake_case')), 'snake_case');
+});
+
+test('normalizeMarkdown is stable, so normalized notes compare equal', () => {
+  for (const md of ['use __init__ method', 'an _emphasis_ here', '**a *b* c**', 'x * y', '**a *b***', '`a*`']) {
+    const once = normalizeMarkdown(md);
+    assert.equal(normalizeMarkdown(once), once, md);
+  }
+  assert.equal(normalizeMarkdown('use __init__ method'), 'use **init** method');
+});
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { applyTagRules, parseTagRules, DEFAULT_TAG_RULES } from '../lib/tags.js';
+
+test('default rules pass tags through, trimmed and de-duplicated by case', () => {
+  const r = applyTagRules([' js ', 'JS', '', 'a,b'], DEFAULT_TAG_RULES);
+  assert.deepEqual(r.tags, ['js', 'a b']);
+  assert.deepEqual(r.notInTags, []);
+});
+
+test('aliases, deny patterns and case folding', () => {
+  const rules = parseTagRules({ aliases: { js: 'JavaScript' }, deny: ['tmp*', '/^\\d+$/'], case: 'lower' });
+  const r = applyTagRules(['js', 'tmp-1', '2024', 'Rust'], rules);
+  assert.deepEqual(r.tags, ['JavaScript', 'rust']);
+  assert.deepEqual(r.notInTags, ['tmp-1', '2024']);
+});
+
+test('routes move matching tags out of Tags unless keep is set', () => {
+  const rules = parseTagRules({
+    routes: [
+      { match: 'project:*', property: 'Project', type: 'select' },
+      { match: 'topic:*', property: 'Topic', type: 'multi_select', keep: true }
+    ]
+  });
+  const r = applyTagRules(['project:alpha', 'topic:ai', 'misc'], rules);
+  assert.deepEqual(r.routed.map((x) => x.values), [['alpha'], ['ai']]);
+  assert.deepEqual(r.tags, ['topic:ai', 'misc']);
+  assert.deepEqual(r.notInTags, ['project:alpha']);
+});
+
+test('hierarchy expands, keeps or takes the leaf', () => {
+  const tag = ['dev/web/css'];
+  assert.deepEqual(applyTagRules(tag, parseTagRules({ hierarchy: 'expand' })).tags, ['dev', 'dev/web', 'dev/web/css']);
+  assert.deepEqual(applyTagRules(tag, parseTagRules({ hierarchy: 'leaf' })).tags, ['css']);
+  assert.deepEqual(applyTagRules(tag, parseTagRules({ hierarchy: 'keep' })).tags, ['dev/web/css']);
+});
@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { canonicalUrl } from '../lib/urls.js';
+
+test('canonicalUrl normalizes scheme, host, slash, fragment and param order', () => {
+  assert.equal(canonicalUrl('http://www.Example.com/a/b/?z=1&a=2#top'), 'https://example.com/a/b?a=2&z=1');
+  assert.equal(canonicalUrl('https://example.com/'), 'https://example.com');
+  assert.equal(canonicalUrl('https://example.com:8443/x'), 'https://example.com:8443/x');
+});
+
+test('canonicalUrl drops tracking params', () => {
+  assert.equal(
+    canonicalUrl('https://example.com/post?utm_source=x&UTM_medium=y&fbclid=1&gclid=2&id=7'),
+    'https://example.com/post?id=7'
+  );
+});
+
+test('canonicalUrl unwraps redirectors, nested ones too', () => {
+  const target = 'https://example.com/article?utm_campaign=z';
+  const google = `https://www.google.com/url?q=${encodeURIComponent(target)}`;
+  assert.equal(canonicalUrl(google), 'https://example.com/article');
+  assert.equal(canonicalUrl(`https://l.facebook.com/l.php?u=${encodeURIComponent(google)}`), 'https://example.com/article');
+  assert.equal(canonicalUrl(`https://href.li/?${target}`), 'https://example.com/article');
+});
+
+test('canonicalUrl leaves what it cannot parse alone', () => {
+  assert.equal(canonicalUrl('  not a url  '), 'not a url');
+  assert.equal(canonicalUrl('mailto:me@example.com'), 'mailto:me@example.com');
+  assert.equal(canonicalUrl(undefined), '');
+});
+
+test('canonicalUrl survives a bad percent-escape in a wrapped URL', () => {
+  assert.equal(canonicalUrl('https://href.li/?a%zz'), 'https://href.li?a%25zz=');
+  assert.equal(canonicalUrl('https://href.li/?https://example.com/a%zz'), 'https://example.com/a%zz');
+});
@@ -0,0 +1,148 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+
+import { signPayload, verifySignature, parseWebhookEvent, checkAndRememberDelivery } from '../lib/webhook.js';
+import { fileStateStore, kvStateStore } from '../lib/state.js';
+
+const SECRET = 'shh';
+const body = JSON.stringify({ raindropId: 123, action: 'removed' });
+const now = () => String(Math.floor(Date.now() / 1000));
+
+test('a correctly signed, fresh payload verifies', () => {
+  const ts = now();
+  assert.deepEqual(verifySignature(SECRET, ts, signPayload(SECRET, ts, body), body, 300), { ok: true });
+});
+
+test('tampered body, wrong secret and stale timestamps are rejected', () => {
+  const ts = now();
+  const sig = signPayload(SECRET, ts, body);
+  assert.deepEqual(verifySignature(SECRET, ts, sig, body + ' ', 300), { ok: false, reason: 'bad signature' });
+  assert.deepEqual(verifySignature('other', ts, sig, body, 300), { ok: false, reason: 'bad signature' });
+  const old = String(Number(ts) - 1000);
+  assert.deepEqual(verifySignature(SECRET, old, signPayload(SECRET, old, body), body, 300), {
+    ok: false,
+    reason: 'timestamp outside tolerance'
+  });
+  assert.deepEqual(verifySignature(SECRET, undefined, sig, body, 300), { ok: false, reason: 'missing signature headers' });
+  assert.deepEqual(verifySignature(SECRET, 'soon', sig, body, 300), { ok: false, reason: 'bad timestamp' });
+});
+
+test('parseWebhookEvent reads the ID from either shape and defaults to updated', () => {
+  assert.deepEqual(parseWebhookEvent({ raindropId: '7', action: 'CREATED', eventId: 9 }), {
+    raindropId: 7,
+    action: 'created',
+    eventId: '9'
+  });
+  assert.deepEqual(parseWebhookEvent({ raindrop: { _id: 8 } }), { raindropId: 8, action: 'updated', eventId: undefined });
+  assert.throws(() => parseWebhookEvent({ raindropId: 'x' }), /numeric raindropId/);
+  assert.throws(() => parseWebhookEvent({ raindropId: 1, action: 'moved' }), /unknown action/);
+});
+
+test('a delivery is accepted once, then rejected as a replay', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'webhook-'));
+  try {
+    const store = fileStateStore(join(dir, 'state.json'));
+    assert.equal(await checkAndRememberDelivery(store, 'sha256=aa', 300), true);
+    assert.equal(await checkAndRememberDelivery(store, 'sha256=aa', 300), false);
+    assert.equal(await checkAndRememberDelivery(store, 'sha256=bb', 300), true);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('on KV the claim is a single SET NX with a TTL', async () => {
+  const realFetch = globalThis.fetch;
+  const sent: unknown[] = [];
+  const taken = new Set<string>();
+  globalThis.fetch = (async (_url: string, init: RequestInit) => {
+    const args = JSON.parse(String(init.body));
+    sent.push(args);
+    const fresh = !taken.has(args[1]);
+    taken.add(args[1]);
+    return Response.json({ result: fresh ? 'OK' : null });
+  }) as typeof fetch;
+  try {
+    const store = kvStateStore('https://kv.test', 'token');
+    assert.equal(await checkAndRememberDelivery(store, 'sha256=aa', 300), true);
+    assert.equal(await checkAndRememberDelivery(store, 'sha256=aa', 300), false);
+    assert.deepEqual(sent[0], ['SET', 'raindrop-notion:webhook:seen:sha256=aa', '1', 'NX', 'EX', 600]);
+    assert.equal(sent.length, 2);
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+});
+
+test('a removed delivery leaves an already-flagged row alone', async () => {
+  Object.assign(process.env, {
+    WEBHOOK_SECRET: SECRET,
+    NOTION_API_TOKEN: 'secret_x',
+    NOTION_DATABASE_ID: 'db',
+    RAINDROP_COLLECTION_ID: '1',
+    RAINDROP_ACCESS_TOKEN: 'rd',
+    STATE_STORE: 'none'
+  });
+  const { default: handler } = await import('../api/webhook.js');
+
+  const realFetch = globalThis.fetch;
+  const patched: string[] = [];
+  const page = (flagged: boolean) => ({
+    object: 'page',
+    id: 'page-1',
+    properties: {
+      'Raindrop ID': { type: 'number', number: 123 },
+      'Deleted (Raindrop)': { type: 'checkbox', checkbox: flagged },
+      'Delete Detected At': { type: 'date', date: flagged ? { start: '2026-01-01T00:00:00.000Z' } : null }
+    }
+  });
+  let flagged = true;
+  globalThis.fetch = (async (input: string | URL, init?: RequestInit) => {
+    const url = String(input);
+    if (url.includes('api.raindrop.io')) return Response.json({ result: false }, { status: 404 });
+    if (url.endsWith('/query')) return Response.json({ object: 'list', results: [page(flagged)], has_more: false });
+    if (init?.method === 'PATCH') patched.push(url);
+    return Response.json(page(true));
+  }) as typeof fetch;
+
+  // a new eventId makes a new delivery, so the replay claim doesn't stop it
+  const deliver = async (eventId: string) => {
+    const ts = now();
+    const payload = JSON.stringify({ raindropId: 123, action: 'removed', eventId });
+    const req = Object.assign(Readable.from([Buffer.from(payload)]), {
+      method: 'POST',
+      headers: { 'x-webhook-timestamp': ts, 'x-webhook-signature': signPayload(SECRET, ts, payload) }
+    });
+    const out: { status?: number; json?: any } = {};
+    const res = {
+      status(code: number) {
+        out.status = code;
+        return res;
+      },
+      json(data: unknown) {
+        out.json = data;
+        return res;
+      }
+    };
+    await handler(req as any, res as any);
+    return out;
+  };
+
+  try {
+    let out = await deliver('1');
+    assert.equal(out.status, 200);
+    assert.deepEqual(out.json.flagged, []);
+    assert.deepEqual(out.json.alreadyFlagged, [{ pair: 'default', pageId: 'page-1' }]);
+    assert.deepEqual(patched, []);
+
+    flagged = false;
+    out = await deliver('2');
+    assert.deepEqual(out.json.flagged, [{ pair: 'default', pageId: 'page-1' }]);
+    assert.equal(patched.length, 1);
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+});